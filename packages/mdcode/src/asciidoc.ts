@@ -0,0 +1,483 @@
+/**
+ * AsciiDoc support: `----` listing blocks with `[source,lang,key=value]` attribute lists
+ * Example:
+ * [source,java,file=App.java,region=main]
+ * ----
+ * System.out.println("Hello");
+ * ----
+ */
+
+import { BOM } from "./eol.ts";
+import { frontMatterLength } from "./frontmatter.ts";
+import { splitLines } from "./scanner.ts";
+import type { MetaComment, ScannedBlock } from "./scanner.ts";
+
+/**
+ * A single comma-separated entry of an attribute list
+ */
+interface Attribute {
+  /** Attribute name, or undefined for a positional attribute */
+  name?: string;
+  /** Value with quotes and escapes resolved */
+  value: string;
+  /** Offsets of the raw entry (trimmed) within the attribute list */
+  start: number;
+  end: number;
+}
+
+/**
+ * A section heading enclosing the current position
+ */
+interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+/**
+ * Attribute list lines and block titles seen before a delimiter
+ */
+interface PendingAttributes {
+  /** Offset where the first of these lines starts */
+  start: number;
+  /** Last attribute list, including the brackets, and its offset */
+  info: string;
+  infoStart: number;
+}
+
+const LISTING_DELIMITER = /^-{4,}$/;
+const LITERAL_DELIMITER = /^\.{4,}$/;
+// Comment and passthrough blocks hold no code blocks
+const SKIPPED_DELIMITER = /^(?:\/{4,}|\+{4,})$/;
+const ATTRIBUTE_LIST = /^\[(?!\[).*\]$/;
+const ANCHOR = /^\[\[([^\],]+)(?:,[^\]]*)?\]\]$/;
+const BLOCK_TITLE = /^\.[^\s.]/;
+const SECTION_TITLE = /^(={1,6})[ \t]+(\S.*?)(?:[ \t]+=+)?$/;
+const META_COMMENT = /^(\/\/\s*mdcode)((?:\s.*?)?)\s*$/;
+const LINE_COMMENT = /^\/\/(?!\/)/;
+
+/**
+ * Remove the quotes around an attribute value, resolving backslash escapes
+ */
+function unquote(text: string): string {
+  const quote = text[0];
+  if ((quote === "\"" || quote === "'") && text.length > 1 && text.endsWith(quote)) {
+    return text.slice(1, -1).replace(new RegExp(`\\\\${quote}`, "g"), quote);
+  }
+  return text;
+}
+
+/**
+ * Split the text between the brackets of an attribute list into entries.
+ * Entries are separated by commas; a value that starts with a quote runs to the
+ * matching quote, so it may contain commas.
+ */
+function splitAttributes(text: string): Array<Attribute> {
+  const attributes: Array<Attribute> = [];
+  let start = 0;
+  let quote = "";
+  // Whether the next character starts a value (a quote there opens a quoted value)
+  let valueStart = true;
+
+  for (let i = 0; i <= text.length; i++) {
+    const char = text[i] || "";
+
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      }
+      else if (char === quote) {
+        quote = "";
+      }
+      continue;
+    }
+
+    if (i < text.length && char !== ",") {
+      if (valueStart && (char === "\"" || char === "'")) {
+        quote = char;
+      }
+      valueStart = (valueStart && /\s/.test(char)) || char === "=";
+      continue;
+    }
+
+    const raw = text.substring(start, i);
+    const trimmedStart = start + raw.length - raw.trimStart().length;
+    const entry = raw.trim();
+    const named = entry.match(/^([\w-]+)\s*=\s*(.*)$/);
+
+    attributes.push(named
+      ? { name: named[1], value: unquote(named[2] || ""), start: trimmedStart, end: trimmedStart + entry.length }
+      : { value: unquote(entry), start: trimmedStart, end: trimmedStart + entry.length });
+
+    start = i + 1;
+    valueStart = true;
+  }
+
+  return attributes;
+}
+
+/**
+ * Get the text between the brackets of an attribute list, with its offset in the list
+ */
+function innerText(info: string): { text: string; offset: number; } {
+  return ATTRIBUTE_LIST.test(info) ? { text: info.slice(1, -1), offset: 1 } : { text: "", offset: 0 };
+}
+
+/**
+ * Parse an attribute list such as `[source,java,file=App.java]`.
+ * The first positional attribute is the block style; for `source` blocks the
+ * second one is the language. Named attributes become metadata, other positional
+ * attributes and `%option`s become flags, `#id` becomes `name` and `.role`s go in `class`.
+ */
+export function parseAttributeList(info: string): { lang: string; meta: Record<string, string>; } {
+  const attributes = splitAttributes(innerText(info).text);
+  const positional = attributes.filter(attribute => attribute.name === undefined).map(attribute => attribute.value);
+  const meta: Record<string, string> = {};
+  const roles: Array<string> = [];
+
+  // The style may carry shorthand: source#id.role%option
+  const [ style = "", ...shorthand ] = (positional[0] || "").split(/(?=[#.%])/);
+  for (const part of shorthand) {
+    if (part.startsWith("#")) {
+      meta.name = part.substring(1);
+    }
+    else if (part.startsWith(".")) {
+      roles.push(part.substring(1));
+    }
+    else if (part.length > 1) {
+      meta[part.substring(1)] = "true";
+    }
+  }
+  if (roles.length > 0) {
+    meta.class = roles.join(" ");
+  }
+
+  const source = style === "source" || style === "";
+  const lang = source ? positional[1] || "" : "";
+
+  for (const flag of positional.slice(source ? 2 : 1)) {
+    if (flag) {
+      meta[flag] = "true";
+    }
+  }
+
+  for (const { name, value } of attributes) {
+    if (name) {
+      meta[name] = value;
+    }
+  }
+
+  return { lang, meta };
+}
+
+/**
+ * Quote an attribute value if it cannot be written bare
+ */
+function formatValue(value: string): string {
+  if (/^[^\s,"'\]]+$/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/"/g, "\\\"")}"`;
+}
+
+/**
+ * Apply metadata updates to an attribute list (or create one when `info` is empty).
+ * Named attributes (and an `#id` for `name`) are rewritten where they are; new keys are appended.
+ */
+export function updateAttributeList(info: string, updates: Record<string, string>): string {
+  const { text, offset } = innerText(info);
+  const pending = new Map(Object.entries(updates));
+  let result = text;
+
+  const attributes = splitAttributes(text);
+  const style = attributes.find(attribute => attribute.name === undefined);
+
+  for (const attribute of [ ...attributes ].reverse()) {
+    const name = pending.get("name");
+
+    if (attribute === style && name !== undefined && /^[^\s,"'\]#.%]+$/.test(name)) {
+      // An `#id` in the style is the name
+      const entry = result.substring(attribute.start, attribute.end);
+      const updated = entry.replace(/#[^#.%]*/, `#${name}`);
+      if (updated !== entry) {
+        result = `${result.substring(0, attribute.start)}${updated}${result.substring(attribute.end)}`;
+        pending.delete("name");
+      }
+    }
+
+    const value = attribute.name === undefined ? undefined : pending.get(attribute.name);
+    if (attribute.name === undefined || value === undefined) {
+      continue;
+    }
+    result = `${result.substring(0, attribute.start)}${attribute.name}=${formatValue(value)}${result.substring(attribute.end)}`;
+    pending.delete(attribute.name);
+  }
+
+  // Flags that are already set stay as they are
+  const flags = parseAttributeList(info).meta;
+  const appended = [ ...pending ]
+    .filter(([ key, value ]) => !(value === "true" && flags[key] === "true"))
+    .map(([ key, value ]) => `${key}=${formatValue(value)}`);
+
+  const entries = [ result.trimEnd(), ...appended ].filter(Boolean).join(",");
+  return offset > 0 || entries ? `[${entries}]` : "";
+}
+
+/**
+ * Set the language of an attribute list: the second positional attribute of a
+ * `source` block. A block with another style becomes a `source` block.
+ */
+export function updateAttributeLang(info: string, lang: string): string {
+  const { text, offset } = innerText(info);
+  if (offset === 0) {
+    return lang ? `[source,${lang}]` : info;
+  }
+
+  const positional = splitAttributes(text).filter(attribute => attribute.name === undefined);
+  const [ style, current ] = positional;
+  const styleName = (style?.value || "").split(/(?=[#.%])/)[0] || "";
+  const replace = (start: number, end: number, value: string) => `[${text.substring(0, start)}${value}${text.substring(end)}]`;
+
+  if (!style) {
+    return lang ? `[source,${lang},${text}]` : info;
+  }
+  if (styleName !== "source" && styleName !== "" && !lang) {
+    return info;
+  }
+  if (styleName !== "source" && styleName !== "") {
+    // Keep the shorthand (#id.role%option) of the style
+    return replace(style.start, style.start + styleName.length, `source,${lang}`);
+  }
+  if (!current) {
+    return lang ? replace(style.end, style.end, `,${lang}`) : info;
+  }
+  // Flags after the language keep their place
+  return lang || positional.length > 2 ? replace(current.start, current.end, lang) : replace(style.end, current.end, "");
+}
+
+/**
+ * Remove metadata keys from an attribute list: named attributes, flags and
+ * the `#id` (for `name`), `.role`s (for `class`) and `%option`s of the style
+ */
+export function removeAttributeKeys(info: string, keys: Array<string>): string {
+  const { text, offset } = innerText(info);
+  if (offset === 0) {
+    return info;
+  }
+
+  const attributes = splitAttributes(text);
+  const positional = attributes.filter(attribute => attribute.name === undefined);
+  const style = positional[0];
+  const styleName = (style?.value || "").split(/(?=[#.%])/)[0] || "";
+  const flags = positional.slice(styleName === "source" || styleName === "" ? 2 : 1);
+  let result = text;
+
+  for (const attribute of [ ...attributes ].reverse()) {
+    if (attribute === style) {
+      // Drop the shorthand parts of the style for removed keys
+      const entry = result.substring(attribute.start, attribute.end);
+      const [ name = "", ...parts ] = entry.split(/(?=[#.%])/);
+      const kept = parts.filter(part => !(part.startsWith("#") ? keys.includes("name") : part.startsWith(".") ? keys.includes("class") : keys.includes(part.substring(1))));
+      result = `${result.substring(0, attribute.start)}${name}${kept.join("")}${result.substring(attribute.end)}`;
+      continue;
+    }
+
+    const key = attribute.name ?? (flags.includes(attribute) ? attribute.value : undefined);
+    if (key === undefined || !keys.includes(key)) {
+      continue;
+    }
+    // Remove the entry with the comma before it (or after it, for the first entry)
+    const comma = result.lastIndexOf(",", attribute.start);
+    const end = comma < 0 ? result.indexOf(",", attribute.end) + 1 || result.length : attribute.end;
+    result = `${result.substring(0, Math.max(comma, 0))}${result.substring(end)}`;
+  }
+
+  return `[${result}]`;
+}
+
+/**
+ * Find named attributes that appear more than once in an attribute list
+ */
+export function duplicateAttributeKeys(info: string): Array<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const { name } of splitAttributes(innerText(info).text)) {
+    if (name !== undefined) {
+      if (seen.has(name)) {
+        duplicates.add(name);
+      }
+      seen.add(name);
+    }
+  }
+
+  return [ ...duplicates ];
+}
+
+/**
+ * Build an Asciidoctor-style section id (`_getting_started`), adding _2, _3, ... for repeats
+ */
+function sectionId(text: string, seen: Map<string, number>): string {
+  const id = `_${text.toLowerCase().replace(/<[^>]+>|&\S+?;/g, "").replace(/[^\p{L}\p{N}_.-]+/gu, "_").replace(/^_+|_+$/g, "")}`;
+  const count = seen.get(id) || 0;
+  seen.set(id, count + 1);
+  return count > 0 ? `${id}_${count + 1}` : id;
+}
+
+/**
+ * Scan AsciiDoc source for listing blocks.
+ *
+ * Every `----` listing block is reported; a `....` literal block only when its
+ * style is `source`. The attribute list and block title lines right before the
+ * delimiter belong to the block, and the attribute list is kept as its `info`
+ * (brackets included; empty when there is none). A `// mdcode key=value` comment
+ * line before them is attached as `comment`.
+ *
+ * Comment (`////`) and passthrough (`++++`) blocks are skipped, and a block that is
+ * never closed runs to the end of the document.
+ */
+export function scanAsciidoc(source: string): Array<ScannedBlock> {
+  const blocks: Array<ScannedBlock> = [];
+  let current: ScannedBlock | undefined;
+  // Closing delimiter of the current block, or of a skipped block
+  let closing = "";
+  let skipping = false;
+  let pending: PendingAttributes | undefined;
+  let comment: MetaComment | undefined;
+  let anchor: string | undefined;
+  const headings: Array<Heading> = [];
+  const ids = new Map<string, number>();
+  const contentStart = frontMatterLength(source);
+
+  const lines = splitLines(source);
+
+  // A byte order mark is not part of the first line's content
+  if (lines[0]?.text.startsWith(BOM)) {
+    lines[0] = { ...lines[0], text: lines[0].text.substring(BOM.length), start: BOM.length };
+  }
+
+  for (const line of lines) {
+    if (line.start < contentStart) {
+      continue;
+    }
+
+    const text = line.text.trimEnd();
+
+    if (current) {
+      if (text === closing) {
+        current.codeEnd = line.start;
+        current.closed = true;
+        current.closeStart = line.start;
+        current.closeEnd = line.start + text.length;
+        blocks.push(current);
+        current = undefined;
+      }
+      else {
+        current.lines.push(line.text + line.eol);
+        current.codeEnd = line.end;
+      }
+      continue;
+    }
+
+    if (skipping) {
+      skipping = text !== closing;
+      continue;
+    }
+
+    if (text === "") {
+      pending = undefined;
+      comment = undefined;
+      anchor = undefined;
+      continue;
+    }
+
+    const directive = text.match(META_COMMENT);
+    if (directive) {
+      const start = line.start + (directive[1] || "").length;
+      const body = directive[2] || "";
+      comment = { text: body.trim(), start, end: start + body.length };
+      continue;
+    }
+
+    if (LINE_COMMENT.test(text)) {
+      continue;
+    }
+
+    const anchorMatch = text.match(ANCHOR);
+    if (anchorMatch) {
+      anchor = anchorMatch[1];
+      continue;
+    }
+
+    if (ATTRIBUTE_LIST.test(text)) {
+      pending = { start: pending?.start ?? line.start, info: text, infoStart: line.start };
+      continue;
+    }
+
+    if (BLOCK_TITLE.test(text)) {
+      pending = { start: pending?.start ?? line.start, info: pending?.info || "", infoStart: pending?.infoStart ?? -1 };
+      continue;
+    }
+
+    const section = text.match(SECTION_TITLE);
+    if (section) {
+      const level = section[1]?.length || 1;
+      while ((headings.at(-1)?.level ?? 0) >= level) {
+        headings.pop();
+      }
+      // An explicit [[id]] or [#id] wins over the generated id
+      const explicit = anchor || (pending?.info.match(/^\[#([^\].%,]+)/)?.[1]);
+      const title = section[2] || "";
+      headings.push({ level, text: title, slug: explicit || sectionId(title, ids) });
+      pending = undefined;
+      comment = undefined;
+      anchor = undefined;
+      continue;
+    }
+
+    const listing = LISTING_DELIMITER.test(text);
+    if (listing || (LITERAL_DELIMITER.test(text) && /^\[source[,#.%\]]/.test(pending?.info || ""))) {
+      const openStart = pending?.start ?? line.start;
+      const infoStart = pending && pending.infoStart >= 0 ? pending.infoStart : line.start;
+      const info = pending?.info || "";
+
+      current = {
+        kind: "fenced",
+        char: text[0] || "",
+        length: text.length,
+        prefix: "",
+        indent: "",
+        info,
+        infoStart,
+        infoEnd: infoStart + info.length,
+        openStart,
+        blockStart: openStart,
+        openEnd: line.start + line.text.length,
+        codeStart: line.end,
+        codeEnd: line.end,
+        lines: [],
+        closed: false,
+        strayFences: [],
+        comment,
+        headings: headings.map(heading => heading.text),
+        slug: headings.at(-1)?.slug || "",
+      };
+      closing = text;
+    }
+    else if (LITERAL_DELIMITER.test(text) || SKIPPED_DELIMITER.test(text)) {
+      skipping = true;
+      closing = text;
+    }
+
+    pending = undefined;
+    comment = undefined;
+    anchor = undefined;
+  }
+
+  // An unclosed block runs to the end of the document
+  if (current) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
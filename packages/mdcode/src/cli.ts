@@ -10,12 +10,16 @@ import { pathToFileURL } from "node:url";
 
 import { Command } from "commander";
 
+import { doctest } from "./commands/doctest.ts";
 import { dump } from "./commands/dump.ts";
 import { extract } from "./commands/extract.ts";
 import { list } from "./commands/list.ts";
 import { run } from "./commands/run.ts";
 import { update } from "./commands/update.ts";
-import type { FilterOptions } from "./types.ts";
+import { formatDiagnostic, parseDocument, syntaxForPath } from "./parser.ts";
+import type { DocumentFormat, FilterOptions, SyntaxOptions } from "./types.ts";
+
+const FORMATS: Array<DocumentFormat> = [ "markdown", "asciidoc", "rst", "org", "ipynb", "jsdoc", "python", "html" ];
 
 /**
  * Read input from file or stdin
@@ -62,6 +66,48 @@ function parseFilterOptions(options: { lang?: string; file?: string; meta?: Reco
   return Object.keys(filter).length > 0 ? filter : undefined;
 }
 
+/**
+ * Collect the syntax flags; the format (or registered adapter) and MDX mode default to what the file extension says
+ * @throws If --format names an unknown format
+ */
+function syntaxOptions(file: string | undefined, options: SyntaxOptions): SyntaxOptions {
+  if (options.format && !FORMATS.includes(options.format)) {
+    throw new Error(`Invalid --format "${options.format}" (expected one of ${FORMATS.join(", ")})`);
+  }
+
+  const detected = file ? syntaxForPath(file) : {};
+  return {
+    format: options.format || detected.format,
+    // An explicit --format wins over an adapter registered for the extension
+    adapter: options.format ? undefined : detected.adapter,
+    indented: options.indented,
+    headerMeta: options.headerMeta,
+    mdx: options.mdx || detected.mdx,
+  };
+}
+
+/**
+ * Print problems found in the markdown source to stderr
+ * @throws With `strict`, if any problems were found
+ */
+function reportDiagnostics(
+  source: string,
+  file: string | undefined,
+  options: SyntaxOptions & { strict?: boolean; },
+  stderr: NodeJS.WriteStream
+): void {
+  const { diagnostics } = parseDocument({ source, ...syntaxOptions(file, options) });
+
+  for (const diagnostic of diagnostics) {
+    const message = formatDiagnostic(diagnostic, file);
+    stderr.write(options.strict ? styleText("red", `✗ ${message}\n`) : styleText("yellow", `⚠ ${message}\n`));
+  }
+
+  if (options.strict && diagnostics.length > 0) {
+    throw new Error(`${diagnostics.length} problem(s) found in ${file || "stdin"} (--strict)`);
+  }
+}
+
 /**
  * Execute the CLI with given arguments
  */
@@ -88,12 +134,18 @@ export async function Execute(
     .option("-l, --lang <lang>", "Filter by language")
     .option("-f, --file <file>", "Filter by file metadata")
     .option("-m, --meta <key=value...>", "Filter by custom metadata")
+    .option("--indented", "Include indented (4-space) code blocks")
+    .option("--header-meta", "Read metadata from a first-line comment in the code (e.g. // file: app.ts)")
+    .option("--mdx", "Parse the input as MDX (default for .mdx files)")
+    .option("--format <format>", "Document format: markdown, asciidoc, rst, org, ipynb, jsdoc, python or html (default: from the file extension)")
+    .option("--strict", "Treat problems in the markdown (e.g. unclosed fences) as errors")
     .option("--json", "Output as JSON")
     .action(async (file, options) => {
       try {
         const source = await readInput(file);
+        reportDiagnostics(source, file, options, stderr);
         const filter = parseFilterOptions(options);
-        const output = list({ source, filter, json: options.json });
+        const output = list({ source, filter, json: options.json, ...syntaxOptions(file, options) });
         stdout.write(output + "\n");
       }
       catch (error: unknown) {
@@ -111,10 +163,17 @@ export async function Execute(
     .option("-l, --lang <lang>", "Filter by language")
     .option("-f, --file <file>", "Filter by file metadata")
     .option("-m, --meta <key=value...>", "Filter by custom metadata")
+    .option("--indented", "Include indented (4-space) code blocks")
+    .option("--header-meta", "Read metadata from a first-line comment in the code (e.g. // file: app.ts)")
+    .option("--mdx", "Parse the input as MDX (default for .mdx files)")
+    .option("--format <format>", "Document format: markdown, asciidoc, rst, org, ipynb, jsdoc, python or html (default: from the file extension)")
+    .option("--strict", "Treat problems in the markdown (e.g. unclosed fences) as errors")
     .option("-d, --dir <dir>", "Output directory (default: current directory)", ".")
     .option("-q, --quiet", "Suppress status messages")
     .option("--update-source", "Add file metadata to anonymous code blocks")
     .option("--ignore-anonymous", "Skip blocks without file metadata")
+    .option("--strip-header", "Remove the first-line metadata comment from the emitted code")
+    .option("--meta-style <style>", "Where --update-source writes metadata: info or comment", "info")
     .action(async (file, options) => {
       try {
         // Validation
@@ -124,7 +183,14 @@ export async function Execute(
           process.exit(1);
         }
 
+        if (options.metaStyle !== "info" && options.metaStyle !== "comment") {
+          stderr.write(`Error: Invalid --meta-style "${options.metaStyle}" (expected info or comment)\n`);
+          // eslint-disable-next-line no-process-exit
+          process.exit(1);
+        }
+
         const source = await readInput(file);
+        reportDiagnostics(source, file, options, stderr);
         const filter = parseFilterOptions(options);
 
         const result = await extract({
@@ -135,6 +201,9 @@ export async function Execute(
           updateSource: options.updateSource,
           ignoreAnonymous: options.ignoreAnonymous,
           sourcePath: file,
+          ...syntaxOptions(file, options),
+          metaStyle: options.metaStyle,
+          stripHeader: options.stripHeader,
         });
 
         // Handle --update-source behavior
@@ -168,26 +237,33 @@ export async function Execute(
     .option("-l, --lang <lang>", "Filter by language")
     .option("-f, --file <file>", "Filter by file metadata")
     .option("-m, --meta <key=value...>", "Filter by custom metadata")
+    .option("--indented", "Include indented (4-space) code blocks")
+    .option("--header-meta", "Read metadata from a first-line comment in the code (e.g. // file: app.ts)")
+    .option("--mdx", "Parse the input as MDX (default for .mdx files)")
+    .option("--format <format>", "Document format: markdown, asciidoc, rst, org, ipynb, jsdoc, python or html (default: from the file extension)")
+    .option("--strict", "Treat problems in the markdown (e.g. unclosed fences) as errors")
     .option("-n, --name <name>", "Filter by block name")
     .option("-k, --keep", "Keep temporary directory after execution")
+    .option("--strip-header", "Remove the first-line metadata comment from the emitted code")
     .option("-d, --dir <dir>", "Working directory for command execution (default: temp directory)")
     .action(async (command, file, options) => {
       try {
         const source = await readInput(file);
+        reportDiagnostics(source, file, options, stderr);
         const filter = parseFilterOptions(options);
 
         // Add name to filter if provided
         if (options.name) {
           if (!filter) {
-            await run({ source, command, filter: { meta: { name: options.name } }, keep: options.keep, dir: options.dir });
+            await run({ source, command, filter: { meta: { name: options.name } }, keep: options.keep, dir: options.dir, ...syntaxOptions(file, options), stripHeader: options.stripHeader, sourcePath: file });
           }
           else {
             filter.meta = { ...filter.meta, name: options.name };
-            await run({ source, command, filter, keep: options.keep, dir: options.dir });
+            await run({ source, command, filter, keep: options.keep, dir: options.dir, ...syntaxOptions(file, options), stripHeader: options.stripHeader, sourcePath: file });
           }
         }
         else {
-          await run({ source, command, filter, keep: options.keep, dir: options.dir });
+          await run({ source, command, filter, keep: options.keep, dir: options.dir, ...syntaxOptions(file, options), stripHeader: options.stripHeader, sourcePath: file });
         }
       }
       catch (error: unknown) {
@@ -205,12 +281,18 @@ export async function Execute(
     .option("-l, --lang <lang>", "Filter by language")
     .option("-f, --file <file>", "Filter by file metadata")
     .option("-m, --meta <key=value...>", "Filter by custom metadata")
+    .option("--indented", "Include indented (4-space) code blocks")
+    .option("--header-meta", "Read metadata from a first-line comment in the code (e.g. // file: app.ts)")
+    .option("--mdx", "Parse the input as MDX (default for .mdx files)")
+    .option("--format <format>", "Document format: markdown, asciidoc, rst, org, ipynb, jsdoc, python or html (default: from the file extension)")
+    .option("--strict", "Treat problems in the markdown (e.g. unclosed fences) as errors")
     .option("-t, --transform <path>", "Path to transformer function file (must export default)")
     .option("-q, --quiet", "Suppress status messages")
     .option("--stdout", "Write output to stdout instead of updating file in-place")
     .action(async (file, options) => {
       try {
         const source = await readInput(file);
+        reportDiagnostics(source, file, options, stderr);
         const filter = parseFilterOptions(options);
 
         // Load transformer function if provided
@@ -238,7 +320,7 @@ export async function Execute(
         // Set basePath to the directory of the input file, or current directory if stdin
         const basePath = file ? dirname(resolve(file)) : process.cwd();
 
-        const output = await update({ source, filter, transformer, basePath, quiet: options.quiet });
+        const output = await update({ source, filter, transformer, basePath, quiet: options.quiet, ...syntaxOptions(file, options), sourcePath: file });
 
         // If file path is provided and --stdout flag is not set, write in-place
         if (file && !options.stdout) {
@@ -264,13 +346,20 @@ export async function Execute(
     .option("-l, --lang <lang>", "Filter by language")
     .option("-f, --file <file>", "Filter by file metadata")
     .option("-m, --meta <key=value...>", "Filter by custom metadata")
+    .option("--indented", "Include indented (4-space) code blocks")
+    .option("--header-meta", "Read metadata from a first-line comment in the code (e.g. // file: app.ts)")
+    .option("--mdx", "Parse the input as MDX (default for .mdx files)")
+    .option("--format <format>", "Document format: markdown, asciidoc, rst, org, ipynb, jsdoc, python or html (default: from the file extension)")
+    .option("--strict", "Treat problems in the markdown (e.g. unclosed fences) as errors")
     .option("-q, --quiet", "Suppress status messages")
     .option("-o, --out <file>", "Output file (default: stdout)")
+    .option("--strip-header", "Remove the first-line metadata comment from the emitted code")
     .action(async (file, options) => {
       try {
         const source = await readInput(file);
+        reportDiagnostics(source, file, options, stderr);
         const filter = parseFilterOptions(options);
-        const tarData = await dump({ source, filter, quiet: options.quiet });
+        const tarData = await dump({ source, filter, quiet: options.quiet, ...syntaxOptions(file, options), stripHeader: options.stripHeader });
 
         if (options.out) {
           await writeFile(options.out, tarData);
@@ -289,8 +378,53 @@ export async function Execute(
       }
     });
 
+  // Doctest command
+  program
+    .command("doctest")
+    .description("Check the output of Python doctest examples (pycon blocks and docstrings)")
+    .argument("[file]", "Markdown file to read (default: stdin)")
+    .option("-l, --lang <lang>", "Filter by language")
+    .option("-f, --file <file>", "Filter by file metadata")
+    .option("-m, --meta <key=value...>", "Filter by custom metadata")
+    .option("--indented", "Include indented (4-space) code blocks")
+    .option("--header-meta", "Read metadata from a first-line comment in the code (e.g. // file: app.ts)")
+    .option("--mdx", "Parse the input as MDX (default for .mdx files)")
+    .option("--format <format>", "Document format: markdown, asciidoc, rst, org, ipynb, jsdoc, python or html (default: from the file extension)")
+    .option("--strict", "Treat problems in the markdown (e.g. unclosed fences) as errors")
+    .option("--accept", "Replace the expected output of failing examples with the actual output")
+    .option("--python <command>", "Python interpreter to run the examples with", "python3")
+    .option("-q, --quiet", "Suppress status messages")
+    .option("--stdout", "With --accept, write output to stdout instead of updating file in-place")
+    .action(async (file, options) => {
+      try {
+        const source = await readInput(file);
+        reportDiagnostics(source, file, options, stderr);
+        const filter = parseFilterOptions(options);
+        const result = await doctest({ source, filter, accept: options.accept, python: options.python, quiet: options.quiet, ...syntaxOptions(file, options), sourcePath: file });
+
+        if (options.accept) {
+          // If file path is provided and --stdout flag is not set, write in-place
+          if (file && !options.stdout) {
+            await writeFile(file, result.source, "utf-8");
+          }
+          else {
+            stdout.write(result.source);
+          }
+        }
+        else if (result.failures.length > 0) {
+          // eslint-disable-next-line no-process-exit
+          process.exit(1);
+        }
+      }
+      catch (error: unknown) {
+        if (error instanceof Error) stderr.write(`Error: ${error.message}\n`);
+        // eslint-disable-next-line no-process-exit
+        process.exit(1);
+      }
+    });
+
   // Default behavior: if no subcommand is provided, run list on README.md
-  const commands = [ "list", "extract", "update", "run", "dump" ];
+  const commands = [ "list", "extract", "update", "run", "dump", "doctest" ];
   const hasCommand = !!args[0] && commands.includes(args[0]);
 
   if (!hasCommand && args.length === 0) {
@@ -0,0 +1,41 @@
+/* eslint-disable @typescript-eslint/no-floating-promises */
+import { spawnSync } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { doctest } from "./doctest.ts";
+
+const hasPython = spawnSync("python3", [ "--version" ]).status === 0;
+
+describe("doctest", { skip: !hasPython && "python3 is not installed" }, () => {
+  it("should ignore what a module prints when it is imported, and writes to stdout", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdcode-doctest-"));
+    const sourcePath = join(dir, "noisy.py");
+    const source = [
+      "import os",
+      "print(\"loading\")",
+      "",
+      "def double(x):",
+      "    \"\"\"",
+      "    >>> _ = os.write(1, b\"raw\\n\")",
+      "    >>> double(2)",
+      "    4",
+      "    \"\"\"",
+      "    return x * 2",
+      "",
+    ].join("\n");
+
+    try {
+      await writeFile(sourcePath, source);
+      const result = await doctest({ source, format: "python", sourcePath, quiet: true });
+      assert.equal(result.examples,2);
+      assert.deepEqual(result.failures,[]);
+    }
+    finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
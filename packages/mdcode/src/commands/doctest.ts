@@ -0,0 +1,186 @@
+import { execFile } from "node:child_process";
+import { basename, dirname, extname } from "node:path";
+import { styleText } from "node:util";
+
+import { acceptOutput, formatOutput, outputMatches, parseTranscript } from "../doctest.ts";
+import type { Example, ExampleOutput } from "../doctest.ts";
+import { walk } from "../parser.ts";
+import type { Block, FilterOptions, SyntaxOptions } from "../types.ts";
+
+export interface DoctestOptions extends SyntaxOptions {
+  source: string;
+  filter?: FilterOptions;
+  /** Rewrite the expected output of failing examples instead of reporting them */
+  accept?: boolean;
+  /** Python interpreter to run the examples with (default: python3) */
+  python?: string;
+  quiet?: boolean;
+  sourcePath?: string;
+}
+
+export interface DoctestFailure {
+  /** Index of the block among the blocks matching the filter */
+  blockIndex: number;
+  /** Line of the example's `>>>` prompt in the document */
+  line: number;
+  source: string;
+  expected: string;
+  actual: string;
+}
+
+export interface DoctestResult {
+  /** Number of examples run */
+  examples: number;
+  failures: Array<DoctestFailure>;
+  /** The document, with the expected output rewritten when `accept` is set */
+  source: string;
+}
+
+// Runs each example in one namespace, as the interactive interpreter would, and
+// prints what each one wrote (or the exception it raised) as JSON. The JSON goes to
+// the original stdout, and anything else written to it (such as prints when the
+// module is imported) to stderr.
+const DRIVER = `
+import importlib, io, json, os, sys, traceback
+results_file = os.fdopen(os.dup(1), "w")
+os.dup2(2, 1)
+request = json.load(sys.stdin)
+namespace = {"__name__": "__main__"}
+if request["module"]:
+    sys.path.insert(0, "")
+    namespace.update(vars(importlib.import_module(request["module"])))
+results = []
+for source in request["examples"]:
+    output = io.StringIO()
+    sys.stdout = output
+    exception = None
+    try:
+        exec(compile(source, "<doctest>", "single"), namespace)
+    except BaseException as error:
+        exception = "".join(traceback.format_exception_only(type(error), error))
+    finally:
+        sys.stdout = sys.__stdout__
+    results.append({"output": output.getvalue(), "exception": exception})
+json.dump(results, results_file)
+results_file.close()
+`;
+
+/**
+ * Whether a block holds a doctest transcript: a `pycon` block, or a Python block with `>>>` prompts
+ */
+function isTranscript(block: Block): boolean {
+  const lang = block.lang.toLowerCase();
+  return lang === "pycon" || ((lang === "python" || lang === "py") && /^[ \t]*>>>(?: |$)/m.test(block.code));
+}
+
+/**
+ * Run the examples of one transcript in a new Python process
+ */
+async function runExamples(examples: Array<Example>, python: string, cwd: string, module: string): Promise<Array<ExampleOutput>> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(python, [ "-c", DRIVER ], { cwd, timeout: 30000 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`${python} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      let results: Array<{ output: string; exception: string | null; }>;
+      try {
+        results = JSON.parse(stdout);
+      }
+      catch (parseError) {
+        reject(new Error(`${python} did not report the results of the examples: ${parseError instanceof Error ? parseError.message : String(parseError)}`));
+        return;
+      }
+      resolve(results.map(({ output, exception }) => exception === null ? { output } : { output, exception }));
+    });
+    child.stdin?.end(JSON.stringify({ examples: examples.map(example => example.source), module }));
+  });
+}
+
+/**
+ * Indent text for a report, marking empty output
+ */
+function indentReport(text: string): string {
+  return text === "" ? "    (nothing)" : text.replace(/\n$/, "").replace(/^/gm, "    ");
+}
+
+/**
+ * Run the doctest examples in `pycon` blocks (and Python docstrings) and compare
+ * their output with the transcript. With `accept`, the expected output of the
+ * failing examples is replaced with the actual output.
+ */
+export async function doctest(options: DoctestOptions): Promise<DoctestResult> {
+  const { source, filter, accept = false, python = "python3", quiet = false, format, adapter, indented, headerMeta, mdx, sourcePath } = options;
+  const cwd = sourcePath ? dirname(sourcePath) : process.cwd();
+  // Examples in a module's docstrings see the module's globals, as with doctest.testmod()
+  const module = sourcePath && format === "python" ? basename(sourcePath, extname(sourcePath)) : "";
+  const failures: Array<DoctestFailure> = [];
+  let count = 0;
+  let blockIndex = -1;
+
+  const result = await walk({
+    source,
+    filter,
+    format,
+    adapter,
+    indented,
+    headerMeta,
+    mdx,
+    walker: async (block: Block) => {
+      blockIndex++;
+      if (!isTranscript(block)) {
+        return block;
+      }
+
+      const examples = parseTranscript(block.code);
+      if (examples.length === 0) {
+        return block;
+      }
+      count += examples.length;
+
+      const outputs = await runExamples(examples, python, cwd, module);
+      const accepted = new Map<number, string>();
+      const firstLine = block.position?.code?.start.line || 1;
+
+      for (const [ index, example ] of examples.entries()) {
+        const output = outputs[index] || { output: "" };
+        if (outputMatches(example, output)) {
+          continue;
+        }
+
+        const actual = formatOutput(output);
+        const line = firstLine + example.line;
+        failures.push({ blockIndex, line, source: example.source, expected: example.want, actual });
+        accepted.set(index, actual);
+
+        if (!quiet) {
+          const where = sourcePath ? `${sourcePath}:${line}` : `line ${line}`;
+          console.error(styleText(accept ? "yellow" : "red", `${accept ? "✎" : "✗"} ${where}: ${example.source.split("\n")[0]}`));
+          console.error(`  Expected:\n${indentReport(example.want)}\n  Got:\n${indentReport(actual)}`);
+        }
+      }
+
+      if (!accept || accepted.size === 0) {
+        return block;
+      }
+      return { ...block, code: acceptOutput(block.code, examples, accepted) };
+    },
+  });
+
+  if (!quiet) {
+    if (count === 0) {
+      console.error(styleText("yellow", "No doctest examples found."));
+    }
+    else if (failures.length === 0) {
+      console.error(styleText("green", `✓ ${count} example(s) passed`));
+    }
+    else if (accept) {
+      console.error(styleText("green", `Accepted the output of ${failures.length} of ${count} example(s).`));
+    }
+    else {
+      console.error(styleText("red", `${failures.length} of ${count} example(s) failed`));
+    }
+  }
+
+  return { examples: count, failures, source: result.source };
+}
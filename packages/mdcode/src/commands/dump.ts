@@ -2,21 +2,22 @@ import { styleText } from "node:util";
 
 import { pack } from "tar-stream";
 
-import { parse } from "../parser.ts";
-import type { FilterOptions } from "../types.ts";
+import { parse, withoutHeader } from "../parser.ts";
+import type { FilterOptions, SyntaxOptions } from "../types.ts";
 
-export interface DumpOptions {
+export interface DumpOptions extends SyntaxOptions {
   source: string;
   filter?: FilterOptions;
   quiet?: boolean;
+  stripHeader?: boolean;
 }
 
 /**
  * Create a tar archive of code blocks
  */
 export async function dump(options: DumpOptions): Promise<Uint8Array> {
-  const { source, filter, quiet = false } = options;
-  const blocks = parse({ source, filter });
+  const { source, filter, quiet = false, format, adapter, indented, headerMeta, mdx, stripHeader = false } = options;
+  const blocks = parse({ source, filter, format, adapter, indented, headerMeta, mdx });
 
   if (blocks.length === 0) {
     if (!quiet) {
@@ -46,7 +47,7 @@ export async function dump(options: DumpOptions): Promise<Uint8Array> {
       filename = `block-${index + 1}${ext}`;
     }
 
-    const content = Buffer.from(block.code, "utf-8");
+    const content = Buffer.from(stripHeader ? withoutHeader(block) : block.code, "utf-8");
 
     // Create entry in tar
     packStream.entry({ name: filename }, content);
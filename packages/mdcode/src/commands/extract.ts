@@ -2,10 +2,13 @@ import { mkdir, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 import { styleText } from "node:util";
 
-import {parse, updateInfoStrings} from "../parser.ts";
-import type { FilterOptions } from "../types.ts";
+import { detectEol } from "../eol.ts";
+import { readDefaults } from "../frontmatter.ts";
+import { Document } from "../document.ts";
+import {formatLocation, parse, withoutHeader} from "../parser.ts";
+import type { Block, FilterOptions, MetaStyle, SyntaxOptions } from "../types.ts";
 
-export type ExtractOptions = {
+export type ExtractOptions = SyntaxOptions & {
   source: string;
   filter?: FilterOptions;
   outputDir?: string;
@@ -13,6 +16,8 @@ export type ExtractOptions = {
   updateSource?: boolean;
   ignoreAnonymous?: boolean;
   sourcePath?: string;
+  metaStyle?: MetaStyle;
+  stripHeader?: boolean;
 };
 
 type ExtractResult = {
@@ -31,6 +36,14 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
     quiet = false,
     updateSource = false,
     ignoreAnonymous = false,
+    format,
+    adapter,
+    indented,
+    headerMeta,
+    mdx,
+    metaStyle,
+    stripHeader = false,
+    sourcePath,
   } = options;
 
   // Validate mutual exclusivity
@@ -39,10 +52,15 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
   }
 
   // Parse all blocks (without filter for tracking indices)
-  const allBlocks = parse({ source });
+  const allBlocks = parse({ source, format, adapter, indented, headerMeta, mdx });
 
   // Apply filter if provided
-  let blocks = filter ? parse({ source, filter }) : allBlocks;
+  let blocks = filter ? parse({ source, filter, format, adapter, indented, headerMeta, mdx }) : allBlocks;
+
+  // Drop first-line metadata comments from the extracted code if requested
+  if (stripHeader) {
+    blocks = blocks.map(block => ({ ...block, code: withoutHeader(block) }));
+  }
 
   // Filter anonymous blocks if requested
   if (ignoreAnonymous) {
@@ -65,8 +83,11 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
   // Track generated filenames for anonymous blocks (for --update-source)
   const metadataUpdates = new Map<number, Record<string, string>>();
 
+  // Generated filenames are relative to the front matter base, like any other file metadata
+  const base = readDefaults(source)?.base || "";
+
   // Group blocks by file path
-  const fileMap = new Map<string, Array<{ block: { meta: Record<string, string>; lang: string; code: string; }; index: number; }>>();
+  const fileMap = new Map<string, Array<{ block: Block; index: number; }>>();
 
   for (const block of blocks) {
     // Find the original index of this block in allBlocks
@@ -79,10 +100,10 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
       filePath = join(outputDir, block.meta.file);
     }
     else {
-      // Generate a filename if not specified
+      // Generate a filename if not specified, named after the block's section when it has one
       const ext = getExtensionForLang(block.lang);
-      generatedFilename = `block-${index + 1}${ext}`;
-      filePath = join(outputDir, generatedFilename);
+      generatedFilename = `${block.slug || "block"}-${index + 1}${ext}`;
+      filePath = join(outputDir, base, generatedFilename);
 
       // Track for --update-source
       if (updateSource && index >= 0) {
@@ -98,6 +119,9 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
 
   const extractedFiles: Array<string> = [];
 
+  // Extracted files use the document's line endings
+  const eol = detectEol(source);
+
   // Write files, handling multiple regions per file
   for (const [ filePath, items ] of fileMap.entries()) {
     // Create directory if needed
@@ -121,7 +145,7 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
         parts.push(""); // Empty line between regions
       }
 
-      await writeFile(filePath, parts.join("\n").trim() + "\n", "utf-8");
+      await writeFile(filePath, parts.join(eol).trim() + eol, "utf-8");
       if (!quiet) {
         console.error(styleText("green", `✓ Extracted ${items.length} region(s) to ${filePath}`));
       }
@@ -134,7 +158,7 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
         `${commentStyle} #region ${block.meta.region}`,
         block.code,
         `${commentStyle} #endregion ${block.meta.region}`,
-      ].join("\n") + "\n";
+      ].join(eol) + eol;
 
       await writeFile(filePath, content, "utf-8");
       if (!quiet) {
@@ -144,6 +168,11 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
     else {
       // No regions or mixed - write the first block's code
       await writeFile(filePath, items[0]?.block.code || "", "utf-8");
+
+      // Warnings should always be shown
+      for (const { block } of items.slice(1)) {
+        console.error(styleText("yellow", `⚠ ${formatLocation(block, sourcePath)}: Skipped, ${filePath} is already written by an earlier block`));
+      }
       if (!quiet) {
         console.error(styleText("green", `✓ Extracted to ${filePath}`));
       }
@@ -155,7 +184,11 @@ export async function extract(options: ExtractOptions): Promise<ExtractResult> {
   // Update source if requested
   let updatedSourceContent: string | undefined;
   if (updateSource && metadataUpdates.size > 0) {
-    updatedSourceContent = updateInfoStrings(source, metadataUpdates);
+    const document = new Document(source, { format, adapter, indented, headerMeta, mdx, metaStyle });
+    for (const [ index, updates ] of metadataUpdates) {
+      document.setMeta(index, updates);
+    }
+    updatedSourceContent = document.toString();
   }
 
   return { extractedFiles, updatedSource: updatedSourceContent };
@@ -1,30 +1,41 @@
 import { styleText } from "node:util";
 
 import { parse } from "../parser.ts";
-import type { Block, FilterOptions } from "../types.ts";
+import type { Block, FilterOptions, SyntaxOptions } from "../types.ts";
 
-export interface ListOptions {
+export interface ListOptions extends SyntaxOptions {
   source: string;
   filter?: FilterOptions;
   json?: boolean;
 }
 
+// Fields of a block in JSON output, which metadata keys at the top level cannot replace
+const JSON_FIELDS = [ "lang", "headings", "slug", "position", "meta" ];
+
 /**
  * List all code blocks with their metadata
  */
 export function list(options: ListOptions): string {
-  const { source, filter, json } = options;
-  const blocks = parse({ source, filter });
+  const { source, filter, json, format, adapter, indented, headerMeta, mdx } = options;
+  const blocks = parse({ source, filter, format, adapter, indented, headerMeta, mdx });
 
   if (json) {
     // JSON output: one object per line
     return blocks
       .map(block => {
-        const obj: Record<string, string> = { lang: block.lang };
-        // Spread metadata at top level
+        const obj: Record<string, unknown> = { lang: block.lang };
+        // Spread metadata at top level (all of it is also under `meta`), except keys the block's own fields use
         for (const [ key, value ] of Object.entries(block.meta)) {
-          obj[key] = value;
+          if (!JSON_FIELDS.includes(key)) {
+            obj[key] = value;
+          }
+        }
+        if (block.headings?.length) {
+          obj.headings = block.headings;
+          obj.slug = block.slug || "";
         }
+        obj.position = block.position;
+        obj.meta = block.meta;
         return JSON.stringify(obj);
       })
       .join("\n");
@@ -40,7 +51,12 @@ export function list(options: ListOptions): string {
   output.push(styleText([ "bold", "cyan" ], `Found ${blocks.length} code block(s):\n`));
 
   blocks.forEach((block, index) => {
-    output.push(styleText("bold", `[${index + 1}] ${block.lang || "(no language)"}`));
+    output.push(styleText("bold", `[${index + 1}] ${block.lang || "(no language)"}`) + formatLines(block));
+
+    // Display the enclosing section
+    if (block.headings?.length) {
+      output.push(`  Section: ${block.headings.join(" > ")} ${styleText("gray", `(#${block.slug})`)}`);
+    }
 
     // Display metadata
     if (Object.keys(block.meta).length > 0) {
@@ -91,3 +107,19 @@ export function formatBlock(block: Block): string {
 
   return output.join("\n");
 }
+
+/**
+ * Format the lines a block spans, from the opening fence to the closing fence
+ */
+function formatLines(block: Block): string {
+  const position = block.position;
+  if (!position?.code) {
+    return "";
+  }
+
+  const first = (position.opening || position.code).start.line;
+  // The code body ends at the start of the line after its last line
+  const last = Math.max(first, position.closing?.start.line ?? (position.code.end.column === 1 ? position.code.end.line - 1 : position.code.end.line));
+
+  return styleText("gray", first === last ? ` (line ${first})` : ` (lines ${first}-${last})`);
+}
@@ -4,17 +4,19 @@ import { join } from "node:path";
 import { promisify } from "node:util";
 import { styleText } from "node:util";
 
-import { parse } from "../parser.ts";
-import type { FilterOptions } from "../types.ts";
+import { formatLocation, parse, withoutHeader } from "../parser.ts";
+import type { FilterOptions, SyntaxOptions } from "../types.ts";
 
 const execAsync = promisify(exec);
 
-export interface RunOptions {
+export interface RunOptions extends SyntaxOptions {
   source: string;
   command: string;
   filter?: FilterOptions;
   keep?: boolean;
   dir?: string;
+  stripHeader?: boolean;
+  sourcePath?: string;
 }
 
 export interface RunResult {
@@ -29,8 +31,8 @@ export interface RunResult {
  * Run a shell command on each code block
  */
 export async function run(options: RunOptions): Promise<Array<RunResult>> {
-  const { source, command, filter, keep = false, dir } = options;
-  const blocks = parse({ source, filter });
+  const { source, command, filter, keep = false, dir, format, adapter, indented, headerMeta, mdx, stripHeader = false, sourcePath } = options;
+  const blocks = parse({ source, filter, format, adapter, indented, headerMeta, mdx });
 
   if (blocks.length === 0) {
     console.log(styleText("yellow", "No code blocks found to run."));
@@ -52,14 +54,14 @@ export async function run(options: RunOptions): Promise<Array<RunResult>> {
 
   try {
     for (const [ index, block ] of blocks.entries()) {
-      console.log(styleText([ "bold", "cyan" ], `\n[${index + 1}/${blocks.length}] Running on block ${index + 1}...`));
+      console.log(styleText([ "bold", "cyan" ], `\n[${index + 1}/${blocks.length}] Running on block ${index + 1} (${formatLocation(block, sourcePath)})...`));
 
       // Generate temp file
       const ext = getExtension(block.lang);
       const tmpFile = join(workingDir, `block-${index}${ext}`);
 
       // Write block to temp file
-      await writeFile(tmpFile, block.code, "utf-8");
+      await writeFile(tmpFile, stripHeader ? withoutHeader(block) : block.code, "utf-8");
 
       // Replace {file} placeholder in command with the temp file path
       const actualCommand = command.replace(/\{file\}/g, tmpFile);
@@ -95,7 +97,7 @@ export async function run(options: RunOptions): Promise<Array<RunResult>> {
           error,
         });
 
-        console.log(styleText("red", `✗ Failed (exit code ${exitCode})`));
+        console.log(styleText("red", `✗ ${formatLocation(block, sourcePath)}: Failed (exit code ${exitCode})`));
         if (error.stdout) {
           console.log("Output:", error.stdout.trim());
         }
@@ -1,10 +1,10 @@
 import * as readline from "node:readline";
 import { styleText } from "node:util";
 
-import { walk } from "../parser.ts";
-import type { Block, FilterOptions, TransformerFunction } from "../types.ts";
+import { formatLocation, walk } from "../parser.ts";
+import type { Block, BlockChange, BlockField, FilterOptions, SyntaxOptions, TransformerFunction, TransformerResult, WalkContext } from "../types.ts";
 
-export interface TransformOptions {
+export interface TransformOptions extends SyntaxOptions {
   source: string;
   filter?: FilterOptions;
   transformer?: TransformerFunction;
@@ -14,14 +14,19 @@ export interface TransformOptions {
  * Interactively transform code blocks with user input
  */
 export async function transform(options: TransformOptions): Promise<string> {
-  const { source, filter, transformer } = options;
+  const { source, filter, transformer, format, adapter, indented, headerMeta, mdx } = options;
 
   let skipAll = false;
 
   const result = await walk({
     source,
     filter,
-    walker: async (block: Block) => {
+    format,
+    adapter,
+    indented,
+    headerMeta,
+    mdx,
+    walker: async (block: Block, context?: WalkContext) => {
       if (skipAll) {
         return block;
       }
@@ -30,6 +35,10 @@ export async function transform(options: TransformOptions): Promise<string> {
       console.log("\n" + styleText([ "bold", "cyan" ], "─".repeat(60)));
       console.log(styleText([ "bold", "cyan" ], `Code Block: ${block.lang || "(no language)"}`));
 
+      if (block.headings?.length) {
+        console.log(styleText("white", `Section: ${block.headings.join(" > ")}`));
+      }
+
       if (Object.keys(block.meta).length > 0) {
         const metaStr = Object.entries(block.meta)
           .map(([ key, value ]) => `${styleText("green", key)}=${value}`)
@@ -43,15 +52,19 @@ export async function transform(options: TransformOptions): Promise<string> {
 
       // If a transformer function is provided, use it
       if (transformer) {
-        const transformedCode = await transformer({
+        const transformed = await transformer({
           tag: block.lang,
           meta: {
             file: block.meta.file,
             region: block.meta.region,
           },
           code: block.code,
+          headings: block.headings,
+          slug: block.slug,
+          document: context?.document,
+          index: context?.index,
         });
-        return { ...block, code: transformedCode };
+        return applyTransformerResult(block, transformed);
       }
 
       // Otherwise, prompt the user
@@ -91,9 +104,44 @@ export async function transform(options: TransformOptions): Promise<string> {
     },
   });
 
+  reportSkipped(result.changes);
+
   return result.source;
 }
 
+// How the fields of a block are named in warnings
+const FIELD_NAMES: Record<BlockField, string> = { code: "code", lang: "language", meta: "metadata" };
+
+/**
+ * Warn about the changes to blocks that their document's format cannot hold
+ */
+export function reportSkipped(changes: Array<BlockChange>, sourcePath?: string): void {
+  for (const { block, skipped } of changes) {
+    if (skipped?.length) {
+      // Warnings should always be shown
+      const fields = skipped.map(field => FIELD_NAMES[field]).join(" and ");
+      console.error(styleText("yellow", `⚠ ${formatLocation(block, sourcePath)}: Kept the ${fields}, which cannot be changed in this format`));
+    }
+  }
+}
+
+/**
+ * Apply what a transformer returned to the block it was given: new code, or
+ * changes to the code, language and metadata
+ */
+export function applyTransformerResult(block: Block, result: string | TransformerResult): Block {
+  if (typeof result === "string") {
+    return { ...block, code: result };
+  }
+
+  return {
+    ...block,
+    code: result.code ?? block.code,
+    lang: result.lang ?? block.lang,
+    meta: result.meta ? Object.fromEntries(Object.entries({ ...block.meta, ...result.meta }).filter((entry): entry is [ string, string ] => entry[1] !== undefined)) : block.meta,
+  };
+}
+
 /**
  * Prompt the user for a single line of input
  */
@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/no-floating-promises */
+import { describe, it, mock } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { update } from "./update.ts";
+
+describe("update", () => {
+  it("should not count removing a key from front matter defaults as an update", async () => {
+    const source = "---\nmdcode:\n  meta:\n    region: main\n---\n```js\ncode\n```\n";
+    const error = mock.method(console, "error", () => {});
+
+    try {
+      const result = await update({ source, transformer: ({ code }) => ({ code, meta: { region: undefined } }) });
+      assert.equal(result,source);
+      assert.ok(error.mock.calls.some(call => String(call.arguments[0]).includes("No blocks were updated.")));
+    }
+    finally {
+      error.mock.restore();
+    }
+  });
+
+  it("should write a metadata value with a backtick to a comment and keep the other updates", async () => {
+    const source = "```js\none();\n```\n\n```sh\nls\n```\n";
+    const error = mock.method(console, "error", () => {});
+
+    try {
+      const result = await update({ source, quiet: true, transformer: ({ tag, code }) => tag === "js" ? { code, meta: { title: "Run `one`" } } : code.toUpperCase() });
+      assert.equal(result,"<!-- mdcode title=\"Run `one`\" -->\n```js\none();\n```\n\n```sh\nLS\n```\n");
+    }
+    finally {
+      error.mock.restore();
+    }
+  });
+
+  it("should warn about a new language in formats that cannot hold it, and keep the code", async () => {
+    const source = JSON.stringify({ cells: [ { cell_type: "code", metadata: {}, source: [ "old()" ] } ], metadata: { kernelspec: { language: "python" } } });
+    const error = mock.method(console, "error", () => {});
+
+    try {
+      const result = await update({ source, format: "ipynb", sourcePath: "demo.ipynb", transformer: () => ({ code: "run()", lang: "ts" }) });
+      assert.deepEqual(JSON.parse(result).cells[0].source,[ "run()" ]);
+      assert.ok(error.mock.calls.some(call => /demo\.ipynb:1:\d+: Kept the language/.test(String(call.arguments[0]))));
+    }
+    finally {
+      error.mock.restore();
+    }
+  });
+});
@@ -2,132 +2,205 @@ import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { styleText } from "node:util";
 
+import { detectEol, normalizeEol, stripBom } from "../eol.ts";
+import type { LineEnding } from "../eol.ts";
+import { diffMeta } from "../info.ts";
+import { walkMdast } from "../mdast.ts";
+import type { MdastNode, MdastOptions, MdastWalkResult } from "../mdast.ts";
 import { outline } from "../outline.ts";
-import { walk } from "../parser.ts";
+import { formatLocation, walk } from "../parser.ts";
 import { read as readRegion } from "../region.ts";
-import type { Block, FilterOptions, TransformerFunction } from "../types.ts";
+import type { Block, FilterOptions, SyntaxOptions, TransformerFunction, WalkContext, WalkerFunction } from "../types.ts";
+import { applyTransformerResult, reportSkipped } from "./transform.ts";
 
-export interface UpdateOptions {
+export interface UpdateOptions extends SyntaxOptions {
   source: string;
   filter?: FilterOptions;
   transformer?: TransformerFunction;
   basePath?: string; // Base path for resolving file paths
   quiet?: boolean;
+  sourcePath?: string; // Markdown file path, used in warnings
 }
 
+export type UpdateMdastOptions = MdastOptions & UpdateWalkerOptions & {
+  /** The tree to update; code nodes are changed in place */
+  tree: MdastNode;
+  filter?: FilterOptions;
+};
+
 /**
- * Update markdown code blocks from source files or via transformer
+ * How blocks are refreshed, for `update` and `updateMdast`
  */
-export async function update(options: UpdateOptions): Promise<string> {
-  const { source, filter, transformer, basePath = ".", quiet = false } = options;
+type UpdateWalkerOptions = Pick<UpdateOptions, "transformer" | "basePath" | "quiet" | "sourcePath">;
 
-  let updatedCount = 0;
+/**
+ * Create the walker that refreshes each block from its file (or region) and the transformer
+ * @param onUpdate - Called for each block whose code changes
+ */
+function updateWalker(options: UpdateWalkerOptions, eol: LineEnding, onUpdate: () => void): WalkerFunction {
+  const { transformer, basePath = ".", quiet = false, sourcePath } = options;
 
-  const result = await walk({
-    source,
-    filter,
-    walker: async (block: Block) => {
-      let currentCode = block.code;
+  return async (block: Block, context?: WalkContext) => {
+    let currentCode = block.code;
+    let { lang, meta } = block;
 
-      // Step 1: Read from file if file metadata exists
-      if (block.meta.file) {
-        const filePath = block.meta.file;
-        const resolvedPath = join(basePath, filePath);
+    // Step 1: Read from file if file metadata exists
+    if (block.meta.file) {
+      const filePath = block.meta.file;
+      const resolvedPath = join(basePath, filePath);
 
-        try {
-          // Read the source file
-          let fileContent = await readFile(resolvedPath, "utf-8");
+      try {
+        // Read the source file (a byte order mark belongs to the file, not its code)
+        let fileContent = stripBom(await readFile(resolvedPath, "utf-8"));
 
-          // Check if outline mode is requested
-          const shouldOutline = block.meta.outline === "true";
+        // Check if outline mode is requested
+        const shouldOutline = block.meta.outline === "true";
 
-          if (shouldOutline) {
-            // Use outline to remove content between region markers
-            const result = outline(fileContent);
+        if (shouldOutline) {
+          // Use outline to remove content between region markers
+          const result = outline(fileContent);
+
+          if (!result.found) {
+            throw new Error(`outline=true specified but no region markers found in ${filePath}`);
+          }
+
+          fileContent = result.content;
+        }
+        // If a region is specified (and not using outline), extract only that region
+        else if (block.meta.region) {
+          fileContent = readRegion(fileContent, block.meta.region, block.lang).content/*.trim()*/;
+        }
 
-            if (!result.found) {
-              throw new Error(`outline=true specified but no region markers found in ${filePath}`);
-            }
+        currentCode = fileContent;
 
-            fileContent = result.content;
+        // Keep the first-line metadata comment, which the source file normally lacks
+        if (block.header && !fileContent.startsWith(block.header)) {
+          currentCode = `${block.header}${eol}${fileContent}`;
+        }
+
+        if (!quiet) {
+          console.error(styleText("green", `✓ Read from ${filePath}`));
+          if (shouldOutline) {
+            console.error(styleText("gray", `  Mode: outline`));
           }
-          // If a region is specified (and not using outline), extract only that region
           else if (block.meta.region) {
-            fileContent = readRegion(fileContent, block.meta.region, block.lang).content/*.trim()*/;
+            console.error(styleText("gray", `  Region: ${block.meta.region}`));
           }
+        }
+      }
+      catch (error: any) {// eslint-disable-line @typescript-eslint/no-explicit-any
+        // Error messages should always be shown
+        console.error(styleText("red", `✗ ${formatLocation(block, sourcePath)}: Failed to read ${filePath}: ${error.message}`));
+        // Continue with original code if file read fails
+      }
+    }
 
-          currentCode = fileContent;
+    // Step 2: Apply transformer if provided
+    if (transformer) {
+      try {
+        const result = await transformer({
+          tag: block.lang,
+          meta: {
+            file: block.meta.file,
+            region: block.meta.region,
+          },
+          code: currentCode,
+          headings: block.headings,
+          slug: block.slug,
+          document: context?.document,
+          index: context?.index,
+        });
+
+        const transformed = applyTransformerResult({ ...block, code: currentCode, lang, meta }, result);
+        if (transformed.code !== currentCode || transformed.lang !== lang || transformed.meta !== meta) {
+          ({ code: currentCode, lang, meta } = transformed);
 
           if (!quiet) {
-            console.error(styleText("green", `✓ Read from ${filePath}`));
-            if (shouldOutline) {
-              console.error(styleText("gray", `  Mode: outline`));
-            }
-            else if (block.meta.region) {
-              console.error(styleText("gray", `  Region: ${block.meta.region}`));
-            }
+            console.error(styleText("green", `✓ Transformed ${block.lang} block`));
           }
         }
-        catch (error: any) {// eslint-disable-line @typescript-eslint/no-explicit-any
-          // Error messages should always be shown
-          console.error(styleText("red", `✗ Failed to read ${filePath}: ${error.message}`));
-          // Continue with original code if file read fails
-        }
       }
-
-      // Step 2: Apply transformer if provided
-      if (transformer) {
-        try {
-          const transformedCode = await transformer({
-            tag: block.lang,
-            meta: {
-              file: block.meta.file,
-              region: block.meta.region,
-            },
-            code: currentCode,
-          });
-
-          if (transformedCode !== currentCode) {
-            currentCode = transformedCode;
-
-            if (!quiet) {
-              console.error(styleText("green", `✓ Transformed ${block.lang} block`));
-            }
-          }
-        }
-        catch (error: unknown) {
-          // Error messages should always be shown
-          if(error instanceof Error)console.error(styleText("red", `✗ Transform failed: ${error.message}`));
-          else console.error(styleText("red", `✗ Transform failed`), error);
-          // Continue with current code if transform fails
-        }
+      catch (error: unknown) {
+        // Error messages should always be shown
+        if(error instanceof Error)console.error(styleText("red", `✗ ${formatLocation(block, sourcePath)}: Transform failed: ${error.message}`));
+        else console.error(styleText("red", `✗ ${formatLocation(block, sourcePath)}: Transform failed`), error);
+        // Continue with current code if transform fails
       }
+    }
 
-      // Step 3: Normalize trailing newlines for proper markdown formatting
-      // Ensure code ends with EXACTLY one newline (remove any existing trailing newlines first)
-      if (currentCode) {
-        currentCode = currentCode.replace(/\n+$/, "\n");
-      }
+    // Step 3: Normalize line endings to the document's style for proper markdown formatting
+    // Ensure code ends with EXACTLY one newline (remove any existing trailing newlines first)
+    if (currentCode) {
+      currentCode = normalizeEol(currentCode, eol).replace(/(?:\r?\n)+$/, eol);
+    }
 
-      // Step 4: Update block if changed
-      if (currentCode !== block.code) {
-        updatedCount++;
-        return { ...block, code: currentCode };
-      }
+    // Step 4: Update block if changed (the block's code has no final line ending)
+    const codeChanged = currentCode !== block.code && currentCode !== block.code + eol;
+    const { updates, removed } = diffMeta(block.meta, meta, block.inherited);
+    if (codeChanged || lang !== block.lang || Object.keys(updates).length > 0 || removed.length > 0) {
+      onUpdate();
+      return { ...block, code: codeChanged ? currentCode : block.code, lang, meta };
+    }
 
-      return block;
-    },
-  });
+    return block;
+  };
+}
 
-  if (!quiet) {
-    if (updatedCount === 0) {
-      console.error(styleText("yellow", "No blocks were updated."));
-    }
-    else {
-      console.error(styleText([ "bold", "green" ], `\nUpdated ${updatedCount} block(s).`));
-    }
+/**
+ * Print how many blocks were updated
+ */
+function reportUpdates(count: number, quiet: boolean): void {
+  if (quiet) {
+    return;
+  }
+  if (count === 0) {
+    console.error(styleText("yellow", "No blocks were updated."));
   }
+  else {
+    console.error(styleText([ "bold", "green" ], `\nUpdated ${count} block(s).`));
+  }
+}
+
+/**
+ * Update markdown code blocks from source files or via transformer
+ */
+export async function update(options: UpdateOptions): Promise<string> {
+  const { source, filter, quiet = false, format, adapter, indented, headerMeta, mdx, sourcePath } = options;
+
+  let updatedCount = 0;
+  const eol = detectEol(source);
+
+  const result = await walk({
+    source,
+    filter,
+    format,
+    adapter,
+    indented,
+    headerMeta,
+    mdx,
+    walker: updateWalker(options, eol, () => updatedCount++),
+  });
+
+  reportSkipped(result.changes, sourcePath);
+  // Blocks with only changes their format cannot hold were not updated
+  reportUpdates(updatedCount - result.changes.filter(change => change.fields.length === 0).length, quiet);
 
   return result.source;
 }
 
+/**
+ * Update the code nodes of an mdast tree in place, from source files or via transformer (as `update` does)
+ */
+export async function updateMdast(options: UpdateMdastOptions): Promise<MdastWalkResult> {
+  const { tree, source, mdx, filter, quiet = false } = options;
+
+  let updatedCount = 0;
+  // Code node values use the line endings of the source they were parsed from
+  const eol = detectEol(source || "");
+
+  const result = await walkMdast({ tree, source, mdx, filter, walker: updateWalker(options, eol, () => updatedCount++) });
+
+  reportUpdates(updatedCount, quiet);
+
+  return result;
+}
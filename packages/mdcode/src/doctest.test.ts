@@ -0,0 +1,67 @@
+/* eslint-disable @typescript-eslint/no-floating-promises */
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { acceptOutput, formatOutput, outputMatches, parseTranscript } from "./doctest.ts";
+
+describe("doctest.parseTranscript", () => {
+  it("should split prompts from expected output", () => {
+    const examples = parseTranscript([
+      "Some prose.",
+      ">>> for n in range(2):",
+      "...     print(n)",
+      "0",
+      "1",
+      ">>> x = 1",
+      "",
+      "More prose.",
+      "  >>> x",
+      "  1",
+    ].join("\n"));
+
+    assert.deepEqual(examples.map(example => example.source),[ "for n in range(2):\n    print(n)\n", "x = 1\n", "x\n" ]);
+    assert.deepEqual(examples.map(example => example.want),[ "0\n1\n", "", "1\n" ]);
+    assert.deepEqual(examples.map(example => [ example.line, example.wantStart, example.wantEnd ]),[ [ 1, 3, 5 ], [ 5, 6, 6 ], [ 8, 9, 10 ] ]);
+    assert.equal(examples[2]?.indent,"  ");
+  });
+
+  it("should turn <BLANKLINE> into an empty line", () => {
+    const [ example ] = parseTranscript(">>> print('a\\n\\nb')\na\n<BLANKLINE>\nb\n");
+    assert.equal(example?.want,"a\n\nb\n");
+  });
+});
+
+describe("doctest.outputMatches", () => {
+  const [ example ] = parseTranscript(">>> 1 + 1\n2\n");
+  const [ traceback ] = parseTranscript(">>> int('x')\nTraceback (most recent call last):\n  File \"<doctest>\", line 1\n    ...\nValueError: bad\n");
+
+  it("should compare output exactly", () => {
+    assert.equal(outputMatches(example!, { output: "2\n" }),true);
+    assert.equal(outputMatches(example!, { output: "2 \n" }),false);
+    assert.equal(outputMatches(example!, { output: "", exception: "ValueError: bad\n" }),false);
+  });
+
+  it("should compare only the exception of a traceback", () => {
+    assert.equal(outputMatches(traceback!, { output: "", exception: "ValueError: bad\n" }),true);
+    assert.equal(outputMatches(traceback!, { output: "", exception: "ValueError: worse\n" }),false);
+    assert.equal(outputMatches(traceback!, { output: "bad\n" }),false);
+  });
+});
+
+describe("doctest.acceptOutput", () => {
+  it("should replace expected output, keeping the prompt's indentation", () => {
+    const text = "  >>> print('a\\n\\nb')\n  a\n  >>> x = 1\n  >>> x\n\nDone.\n";
+    const examples = parseTranscript(text);
+    const outputs = new Map([ [ 0, "a\n\nb\n" ], [ 2, formatOutput({ output: "", exception: "NameError: name 'x' is not defined\n" }) ] ]);
+
+    assert.equal(
+      acceptOutput(text, examples, outputs),
+      "  >>> print('a\\n\\nb')\n  a\n  <BLANKLINE>\n  b\n  >>> x = 1\n  >>> x\n  Traceback (most recent call last):\n      ...\n  NameError: name 'x' is not defined\n\nDone.\n"
+    );
+  });
+
+  it("should keep CRLF line endings", () => {
+    const text = ">>> 1\r\n2\r\n";
+    assert.equal(acceptOutput(text, parseTranscript(text), new Map([ [ 0, "1\n" ] ])),">>> 1\r\n1\r\n");
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Doctest transcripts: `>>>` examples and their expected output
+ * Example:
+ * >>> for n in range(2):
+ * ...     print(n)
+ * 0
+ * 1
+ */
+
+/**
+ * One example of a transcript
+ */
+export interface Example {
+  /** Python source, without the `>>> `/`... ` prompts */
+  source: string;
+  /** Expected output (with `<BLANKLINE>` turned into empty lines), ending with a newline unless empty */
+  want: string;
+  /** Indentation of the prompt */
+  indent: string;
+  /** Index of the `>>>` line in the transcript */
+  line: number;
+  /** Lines of the expected output, from `wantStart` up to (not including) `wantEnd` */
+  wantStart: number;
+  wantEnd: number;
+}
+
+/**
+ * Output of running an example
+ */
+export interface ExampleOutput {
+  /** What the example printed (including the values of expressions) */
+  output: string;
+  /** The exception raised, as formatted by `traceback.format_exception_only` */
+  exception?: string;
+}
+
+const PROMPT = /^([ \t]*)>>>(?: |$)/;
+const TRACEBACK_HEADER = /^Traceback \(most recent call last\):|^Traceback \(innermost last\):/;
+const BLANKLINE = "<BLANKLINE>";
+
+/**
+ * Split a transcript into examples.
+ * An example is a `>>>` line and the `...` lines after it; its expected output runs
+ * up to the next blank line or prompt. Other lines are prose and are skipped.
+ */
+export function parseTranscript(text: string): Array<Example> {
+  const lines = text.split(/\r?\n/);
+  const examples: Array<Example> = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const prompt = lines[i]?.match(PROMPT);
+    if (!prompt) {
+      i++;
+      continue;
+    }
+
+    const indent = prompt[1] || "";
+    const line = i;
+    const source = [ (lines[i] || "").substring(prompt[0].length) ];
+    i++;
+
+    const continuation = new RegExp(`^${indent}\\.\\.\\.(?: |$)`);
+    while (i < lines.length && continuation.test(lines[i] || "")) {
+      source.push((lines[i] || "").substring(indent.length + 4));
+      i++;
+    }
+
+    const wantStart = i;
+    const want: Array<string> = [];
+    while (i < lines.length && (lines[i] || "").trim() !== "" && !PROMPT.test(lines[i] || "")) {
+      const wantLine = lines[i] || "";
+      want.push(wantLine.startsWith(indent) ? wantLine.substring(indent.length) : wantLine.trimStart());
+      i++;
+    }
+
+    examples.push({
+      source: `${source.join("\n")}\n`,
+      want: want.map(wantLine => wantLine === BLANKLINE ? "" : wantLine).map(wantLine => `${wantLine}\n`).join(""),
+      indent,
+      line,
+      wantStart,
+      wantEnd: i,
+    });
+  }
+
+  return examples;
+}
+
+/**
+ * Get the exception part of an expected traceback: the lines after the stack
+ * (the stack is the indented lines, or `...`, after the header)
+ */
+function expectedException(want: string): string | undefined {
+  const lines = want.split("\n");
+  if (!TRACEBACK_HEADER.test(lines[0] || "")) {
+    return undefined;
+  }
+
+  const message = lines.slice(1).findIndex(line => line !== "" && !/^\s/.test(line) && line !== "...");
+  return message < 0 ? "" : lines.slice(message + 1).join("\n");
+}
+
+/**
+ * Turn the output of an example into the text of its expected output
+ */
+export function formatOutput(result: ExampleOutput): string {
+  return result.exception === undefined
+    ? result.output
+    : `${result.output}Traceback (most recent call last):\n    ...\n${result.exception}`;
+}
+
+/**
+ * Check an example's output against what it expects.
+ * Output must match exactly; for an expected traceback only the exception is compared.
+ */
+export function outputMatches(example: Example, result: ExampleOutput): boolean {
+  const exception = expectedException(example.want);
+
+  if (exception !== undefined) {
+    return result.exception !== undefined && result.exception === exception;
+  }
+  return result.exception === undefined && result.output === example.want;
+}
+
+/**
+ * Replace the expected output of examples in a transcript.
+ * Output lines get the prompt's indentation, and empty lines become `<BLANKLINE>`.
+ * @param outputs - New expected output for each example (by index), as returned by `formatOutput()`
+ */
+export function acceptOutput(text: string, examples: Array<Example>, outputs: Map<number, string>): string {
+  const lines = text.split("\n");
+
+  // From the last example, so earlier line indexes stay valid
+  for (const [ index, example ] of [ ...examples.entries() ].reverse()) {
+    const output = outputs.get(index);
+    if (output === undefined) {
+      continue;
+    }
+
+    const cr = lines[example.line]?.endsWith("\r") ? "\r" : "";
+    const wantLines = output === "" ? [] : output.replace(/\n$/, "").split("\n")
+      .map(line => `${example.indent}${line === "" ? BLANKLINE : line}${cr}`);
+    lines.splice(example.wantStart, example.wantEnd - example.wantStart, ...wantLines);
+  }
+
+  return lines.join("\n");
+}
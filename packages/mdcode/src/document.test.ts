@@ -0,0 +1,135 @@
+/* eslint-disable @typescript-eslint/no-floating-promises */
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { Document } from "./document.ts";
+import { walk } from "./parser.ts";
+
+const source = [
+  "# Guide",
+  "",
+  "```js file=a.js",
+  "one();",
+  "```",
+  "",
+  "## Setup",
+  "",
+  "```sh",
+  "npm i",
+  "```",
+  "",
+  "> ```py",
+  "> print(1)",
+  "> ```",
+  "",
+].join("\n");
+
+describe("Document", () => {
+  it("inserts blocks after a heading or a block, and before a block", () => {
+    const afterHeading = new Document(source).insert({ lang: "sh", code: "ls", meta: { name: "list" } }, { heading: "setup" });
+    assert.equal(afterHeading.toString(),source.replace("## Setup\n\n", "## Setup\n\n```sh name=list\nls\n```\n\n"));
+    assert.deepEqual(afterHeading.blocks.map(block => block.lang),[ "js", "sh", "sh", "py" ]);
+
+    assert.equal(new Document(source).insert({ lang: "sh", code: "ls" }, { before: 0 }).toString(),source.replace("# Guide\n\n", "# Guide\n\n```sh\nls\n```\n\n"));
+    // A block after one in a blockquote goes in the blockquote
+    assert.equal(new Document(source).insert({ lang: "js", code: "x\n" }, { after: 2 }).toString(),source + ">\n> ```js\n> x\n> ```\n");
+    // Without blank lines around the block, blank lines are added
+    assert.equal(new Document("text\n```js\nx\n```\nmore\n").insert({ lang: "sh", code: "ls" }, { after: 0 }).toString(),"text\n```js\nx\n```\n\n```sh\nls\n```\n\nmore\n");
+
+    assert.throws(() => new Document(source).insert({ lang: "sh", code: "" }, { heading: "missing" }),/No heading "missing"/);
+    // Values with a backtick go in a comment, since a backtick fence cannot hold them
+    const commented = new Document("```js\nx\n```\n").insert({ lang: "sh", code: "ls", meta: { title: "`ls`", file: "ls.sh" } }, { after: 0 });
+    assert.equal(commented.toString(),"```js\nx\n```\n\n<!-- mdcode title=`ls` -->\n```sh file=ls.sh\nls\n```\n");
+    assert.deepEqual(commented.blocks[1]?.meta,{ title: "`ls`", file: "ls.sh" });
+  });
+
+  it("writes new metadata in a comment with metaStyle comment", () => {
+    const document = new Document("```sh\nnpm i\n```\n", { metaStyle: "comment", mdx: true });
+    assert.equal(document.insert({ lang: "sh", code: "ls", meta: { file: "x.sh" } }, { after: 0 }).toString(),"```sh\nnpm i\n```\n\n{/* mdcode file=x.sh */}\n```sh\nls\n```\n");
+  });
+
+  it("removes blocks with their fences and a blank line", () => {
+    assert.equal(new Document(source).remove(1).toString(),source.replace("```sh\nnpm i\n```\n\n", ""));
+    assert.equal(new Document(source).remove(2).toString(),source.replace("\n> ```py\n> print(1)\n> ```\n", ""));
+    assert.equal(new Document("<!-- mdcode file=a.js -->\n```js\nx\n```\n\nText\n").remove(0).toString(),"Text\n");
+    assert.throws(() => new Document(source).remove(7),/No block 7 in the document \(it has 3\)/);
+  });
+
+  it("moves blocks", () => {
+    assert.equal(new Document(source).move(0, { after: 2 }).toString(),"# Guide\n\n## Setup\n\n```sh\nnpm i\n```\n\n> ```py\n> print(1)\n> ```\n>\n> ```js file=a.js\n> one();\n> ```\n");
+    assert.equal(new Document(source).move(2, { before: 0 }).toString(),"# Guide\n\n```py\nprint(1)\n```\n\n```js file=a.js\none();\n```\n\n## Setup\n\n```sh\nnpm i\n```\n");
+    assert.equal(new Document(source).move(1, { after: 1 }).toString(),source);
+  });
+
+  it("sets the language", () => {
+    assert.equal(new Document(source).setLang(0, "ts").setLang(1, "").toString(),source.replace("```js file", "```ts file").replace("```sh", "```"));
+    assert.equal(new Document("Text\n\n    indented\n", { indented: true }).setLang(0, "txt").toString(),"Text\n\n```txt\nindented\n```\n");
+  });
+
+  it("sets and deletes metadata", () => {
+    const document = new Document(source).setMeta(1, { file: "b.sh" }).deleteMeta(0, [ "file" ]);
+    assert.equal(document.toString(),source.replace("```js file=a.js", "```js").replace("```sh", "```sh file=b.sh"));
+
+    assert.equal(new Document("<!-- mdcode file=a.js name=x -->\n```js\nx\n```\n").deleteMeta(0, [ "file" ]).toString(),"<!-- mdcode name=x -->\n```js\nx\n```\n");
+    // A comment left empty is removed
+    assert.equal(new Document("<!-- mdcode file=a.js -->\n```js\nx\n```\n").deleteMeta(0, [ "file" ]).toString(),"```js\nx\n```\n");
+  });
+
+  it("keeps track of blocks across edits", () => {
+    const document = new Document(source);
+    const [ first, , last ] = document.blocks;
+    document.setCode(2, "print(2)").remove(0).insert({ lang: "txt", code: "" }, { before: 0 });
+
+    assert.equal(document.indexOf(first!),-1);
+    assert.equal(document.indexOf(last!),2);
+    assert.equal(document.blocks[2]?.code,"print(2)");
+  });
+
+  it("lets walkers edit the document they walk", async () => {
+    const result = await walk({
+      source,
+      walker: (block, context) => {
+        if (block.lang === "sh") {
+          context?.document.remove(context.index);
+        }
+        return { ...block, code: block.code.toUpperCase() };
+      },
+    });
+
+    assert.equal(result.source,"# Guide\n\n```js file=a.js\nONE();\n```\n\n## Setup\n\n> ```py\n> PRINT(1)\n> ```\n");
+    assert.equal(result.blocks.length,3);
+  });
+
+  it("does not walk blocks an earlier walker removed", async () => {
+    const walked: Array<string> = [];
+    const result = await walk({
+      source,
+      walker: (block, context) => {
+        walked.push(block.lang);
+        if (block.lang === "js") {
+          context?.document.remove(1);
+        }
+        return block;
+      },
+    });
+
+    assert.deepEqual(walked,[ "js", "py" ]);
+    assert.deepEqual(result.blocks.map(block => block.lang),[ "js", "py" ]);
+    assert.equal(result.source,source.replace("```sh\nnpm i\n```\n\n", ""));
+  });
+
+  it("only edits structure in markdown", () => {
+    const rst = new Document(".. code-block:: python\n\n   print(1)\n", { format: "rst" });
+    assert.throws(() => rst.remove(0),/Removing blocks is only supported in markdown documents/);
+    assert.equal(rst.setMeta(0, { file: "a.py" }).toString(),".. code-block:: python\n   :file: a.py\n\n   print(1)\n");
+    assert.equal(rst.setLang(0, "py").deleteMeta(0, [ "file" ]).toString(),".. code-block:: py\n\n   print(1)\n");
+  });
+
+  it("sets the language in formats that write one", () => {
+    const notebook = new Document(JSON.stringify({ cells: [ { cell_type: "code", metadata: {}, source: [ "x = 1" ] } ] }), { format: "ipynb" });
+    assert.equal(notebook.supports("setLang"),false);
+    assert.equal(notebook.supports("deleteMeta"),true);
+    assert.throws(() => notebook.setLang(0, "r"),/Setting the language is not supported in ipynb documents/);
+    assert.equal(new Document("```\nx\n```\n", { format: "jsdoc" }).supports("setLang"),true);
+  });
+});
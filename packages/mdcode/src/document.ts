@@ -0,0 +1,413 @@
+/**
+ * A document whose code blocks can be edited one operation at a time
+ * Example:
+ * const document = new Document(source);
+ * document.setMeta(0, { file: "app.js" }).insert({ lang: "sh", code: "npm test" }, { after: 0 });
+ * document.toString();
+ */
+
+import { detectEol, normalizeEol } from "./eol.ts";
+import type { LineEnding } from "./eol.ts";
+import { fitsInfoString, updateInfoString, updateMetaString } from "./info.ts";
+import { deleteMetaKeys, markdownAdapter, parseDocument, updateLangs } from "./parser.ts";
+import { scan, scanHeadings } from "./scanner.ts";
+import type { ScannedBlock } from "./scanner.ts";
+import type { Block, BlockTarget, Diagnostic, DocumentOperation, NewBlock, ParseResult, UpdateInfoOptions } from "./types.ts";
+import { fenceFor, lineStart, nextLine, prefixLines } from "./write.ts";
+
+/**
+ * Length of the blank line (spaces and quote markers only) starting at `offset`, if there is one
+ */
+function blankLine(source: string, offset: number): number | undefined {
+  const match = /[ \t>]*(?:\r?\n|$)/y;
+  match.lastIndex = offset;
+  return offset < source.length ? match.exec(source)?.[0].length : undefined;
+}
+
+/**
+ * Whether the line before `offset` (the start of a line) is blank, or there is none
+ */
+function followsBlank(source: string, offset: number): boolean {
+  const previous = lineStart(source, offset - 1);
+  return offset === 0 || blankLine(source, previous) === offset - previous;
+}
+
+/**
+ * The source range of a block: from its metadata comment (or opening line) to
+ * the end of its closing fence's line
+ */
+function blockRange(source: string, scanned: ScannedBlock): { start: number; end: number; } {
+  return {
+    start: scanned.comment ? lineStart(source, scanned.comment.start) : scanned.openStart,
+    end: scanned.closeEnd === undefined ? scanned.codeEnd : nextLine(source, scanned.closeEnd),
+  };
+}
+
+/**
+ * Remove the container prefix from lines of a block (the first line is already
+ * without it unless it is a whole line); blank lines may only have its markers
+ */
+function stripPrefix(text: string, prefix: string, wholeFirstLine: boolean): string {
+  const blankPrefix = prefix.trimEnd();
+  return text.split(/(?<=\n)/).map((line, index) => {
+    if (index === 0 && !wholeFirstLine) {
+      return line;
+    }
+    if (line.startsWith(prefix)) {
+      return line.substring(prefix.length);
+    }
+    return line.startsWith(blankPrefix) ? line.substring(blankPrefix.length) : line;
+  }).join("");
+}
+
+/**
+ * Write a new fenced block, with its metadata in the info string or in a comment
+ * before it (as are values the info string cannot hold)
+ */
+function renderBlock(block: NewBlock, eol: LineEnding, options: UpdateInfoOptions): string {
+  const code = normalizeEol(block.code, eol);
+  const body = code === "" || code.endsWith(eol) ? code : code + eol;
+  const fence = fenceFor(code);
+  const entries = Object.entries(block.meta || {});
+  const inInfo = (key: string, value: string) => options.metaStyle !== "comment" && fitsInfoString(key, value, fence[0] || "`");
+  const info = Object.fromEntries(entries.filter(([ key, value ]) => inInfo(key, value)));
+  const commented = Object.fromEntries(entries.filter(([ key, value ]) => !inInfo(key, value)));
+
+  const fenced = `${fence}${updateInfoString(block.lang, info)}${eol}${body}${fence}${eol}`;
+  if (Object.keys(commented).length === 0) {
+    return fenced;
+  }
+
+  const text = updateMetaString("", commented);
+  const comment = options.mdx ? `{/* mdcode ${text} */}` : `<!-- mdcode ${text} -->`;
+  return `${comment}${eol}${fenced}`;
+}
+
+/**
+ * A document with code blocks, to edit: the code, language and metadata of
+ * blocks, and (in markdown) inserting, removing and moving whole blocks.
+ *
+ * Blocks are numbered as `parse()` numbers them, and the numbers follow the edits
+ * (after removing block 1, block 2 is block 1). Each edit rewrites only the text it
+ * has to, so `toString()` differs from the original source only where it was edited.
+ * Code and metadata edits are written in one go when the document is next read.
+ */
+export class Document {
+  private source: string;
+  private readonly options: UpdateInfoOptions;
+  // Blocks and diagnostics of the source, until it changes
+  private parsed: ParseResult | undefined;
+  // An id for each block, in document order, so blocks can be found again after edits
+  private readonly ids: Array<number>;
+  private nextId: number;
+  // Ids of the blocks returned by `blocks`
+  private readonly known = new WeakMap<Block, number>();
+  // Code and metadata edits not written yet, by block id
+  private readonly pending = new Map<number, { code?: string; meta?: Record<string, string>; }>();
+
+  /**
+   * @param options - Syntax options to read the document with, and where new metadata keys go
+   */
+  constructor(source: string, options: UpdateInfoOptions = {}) {
+    this.source = source;
+    this.options = options;
+    this.ids = this.parse().blocks.map((_block, index) => index);
+    this.nextId = this.ids.length;
+  }
+
+  /**
+   * The blocks of the document as it is now (with front matter defaults applied)
+   */
+  get blocks(): Array<Block> {
+    this.flush();
+    const { blocks } = this.parse();
+    blocks.forEach((block, index) => this.known.set(block, this.ids[index] ?? -1));
+    return blocks;
+  }
+
+  /**
+   * Problems found in the document as it is now
+   */
+  get diagnostics(): Array<Diagnostic> {
+    this.flush();
+    return this.parse().diagnostics;
+  }
+
+  /**
+   * Find the current index of a block returned by `blocks`, even after other edits (-1 once it is removed)
+   */
+  indexOf(block: Block): number {
+    const id = this.known.get(block);
+    return id === undefined ? -1 : this.ids.indexOf(id);
+  }
+
+  /**
+   * Whether an edit can be made in this document: code can always be replaced,
+   * metadata set in every format that has it (not Python docstrings), the language
+   * set and metadata deleted in the built-in formats that write them (not notebooks,
+   * whose language is the kernel's, or Python docstrings), and blocks inserted,
+   * removed and moved in markdown only
+   */
+  supports(operation: DocumentOperation): boolean {
+    const { adapter, format } = this.options;
+    switch (operation) {
+      case "setCode":
+        return true;
+      case "setMeta":
+        return Boolean(adapter) || format !== "python";
+      case "setLang":
+        return !adapter && format !== "ipynb" && format !== "python";
+      case "deleteMeta":
+        return !adapter && format !== "python";
+      default:
+        return this.isMarkdown();
+    }
+  }
+
+  /**
+   * Replace the code of a block
+   */
+  setCode(index: number, code: string): this {
+    this.edit(index).code = code;
+    return this;
+  }
+
+  /**
+   * Set metadata keys of a block, where they are or (for new keys) where `metaStyle` says
+   */
+  setMeta(index: number, updates: Record<string, string>): this {
+    const edit = this.edit(index);
+    edit.meta = { ...edit.meta, ...updates };
+    return this;
+  }
+
+  /**
+   * Delete metadata keys of a block from its info string and metadata comment
+   * (a comment left empty is removed). Not in documents read by an adapter or Python docstrings.
+   */
+  deleteMeta(index: number, keys: Array<string>): this {
+    this.edit(index);
+    this.flush();
+    this.rewrite(deleteMetaKeys(this.source, new Map([ [ index, keys ] ]), this.options));
+    return this;
+  }
+
+  /**
+   * Set the language of a block; an indented markdown block becomes a fenced one.
+   * Not in documents read by an adapter, notebooks or Python docstrings.
+   */
+  setLang(index: number, lang: string): this {
+    this.edit(index);
+    this.flush();
+    this.rewrite(updateLangs(this.source, new Map([ [ index, lang ] ]), this.options));
+    return this;
+  }
+
+  /**
+   * Insert a new fenced block after or before a block, or right after a heading,
+   * inside the same blockquote or list item. Markdown only.
+   */
+  insert(block: NewBlock, target: BlockTarget): this {
+    this.scanMarkdown("Inserting blocks");
+    this.insertText(renderBlock(block, detectEol(this.source), this.options), target, this.nextId++);
+    return this;
+  }
+
+  /**
+   * Remove a block with its fences and metadata comment (and a blank line, so
+   * no extra blank lines are left behind). Markdown only.
+   */
+  remove(index: number): this {
+    const scanned = this.scanned("Removing blocks", index);
+    let { start, end } = blockRange(this.source, scanned);
+
+    // The blank line before the block stays; one after it goes (or the one before, at the end)
+    const blankBefore = followsBlank(this.source, start);
+    const blankAfter = blankLine(this.source, end);
+    if (blankBefore && blankAfter !== undefined) {
+      end += blankAfter;
+    }
+    else if (blankBefore && start > 0 && end === this.source.length) {
+      start = lineStart(this.source, start - 1);
+    }
+
+    this.replace(start, end, "");
+    this.ids.splice(index, 1);
+    return this;
+  }
+
+  /**
+   * Move a block (with its metadata comment) after or before another block, or
+   * right after a heading. Markdown only.
+   */
+  move(index: number, target: BlockTarget): this {
+    const scanned = this.scanned("Moving blocks", index);
+    const id = this.ids[index] ?? -1;
+
+    if (("after" in target && target.after === index) || ("before" in target && target.before === index)) {
+      return this;
+    }
+
+    // Target blocks are found by id, since removing this one renumbers them
+    const targetId = "after" in target ? this.ids[target.after] : "before" in target ? this.ids[target.before] : undefined;
+    const { start, end } = blockRange(this.source, scanned);
+    const eol = detectEol(this.source);
+    const text = stripPrefix(this.source.substring(start, end), scanned.prefix, true);
+
+    this.remove(index);
+
+    const moved = this.ids.indexOf(targetId ?? -1);
+    const newTarget = "after" in target ? { after: moved } : "before" in target ? { before: moved } : target;
+    this.insertText(text.endsWith("\n") ? text : text + eol, newTarget, id);
+    return this;
+  }
+
+  /**
+   * The document's source, with all edits
+   */
+  toString(): string {
+    this.flush();
+    return this.source;
+  }
+
+  /**
+   * Parse the source (once until it changes)
+   */
+  private parse(): ParseResult {
+    const { format, adapter, indented, headerMeta, mdx } = this.options;
+    this.parsed ??= parseDocument({ source: this.source, format, adapter, indented, headerMeta, mdx });
+    return this.parsed;
+  }
+
+  /**
+   * Get the pending edit of a block, creating it if needed
+   */
+  private edit(index: number): { code?: string; meta?: Record<string, string>; } {
+    const id = this.ids[index];
+    if (id === undefined) {
+      throw new Error(`No block ${index} in the document (it has ${this.ids.length})`);
+    }
+
+    const edit = this.pending.get(id) || {};
+    this.pending.set(id, edit);
+    return edit;
+  }
+
+  /**
+   * Write the pending code and metadata edits (they leave every block where it is)
+   */
+  private flush(): void {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const { blocks } = this.parse();
+    const edits = [ ...this.pending ].flatMap(([ id, edit ]) => {
+      const index = this.ids.indexOf(id);
+      const block = blocks[index];
+      return block ? [ { index, block, ...edit } ] : [];
+    });
+    this.pending.clear();
+
+    this.source = (this.options.adapter ?? markdownAdapter).apply(this.source, edits, this.options);
+    this.parsed = undefined;
+  }
+
+  /**
+   * Replace the whole source, with an edit that leaves every block where it is
+   */
+  private rewrite(source: string): void {
+    if (source !== this.source) {
+      this.source = source;
+      this.parsed = undefined;
+    }
+  }
+
+  /**
+   * Replace a range of the source
+   */
+  private replace(start: number, end: number, text: string): void {
+    if (this.source.substring(start, end) !== text) {
+      this.source = this.source.substring(0, start) + text + this.source.substring(end);
+      this.parsed = undefined;
+    }
+  }
+
+  /**
+   * Whether the document is read as markdown, by the built-in adapter
+   */
+  private isMarkdown(): boolean {
+    return !this.options.adapter && (!this.options.format || this.options.format === "markdown");
+  }
+
+  /**
+   * Check that the document is markdown (after writing pending edits)
+   * @param operation - What is done, for the error message
+   */
+  private scanMarkdown(operation: string): Array<ScannedBlock> {
+    if (!this.isMarkdown()) {
+      throw new Error(`${operation} is only supported in markdown documents`);
+    }
+
+    this.flush();
+    return scan(this.source, this.options);
+  }
+
+  /**
+   * Get a block as scanned from the markdown source
+   */
+  private scanned(operation: string, index: number): ScannedBlock {
+    const scanned = this.scanMarkdown(operation)[index];
+    if (!scanned) {
+      throw new Error(`No block ${index} in the document (it has ${this.ids.length})`);
+    }
+    return scanned;
+  }
+
+  /**
+   * Insert the text of a block (ending with a line ending, without container prefix) at a target
+   */
+  private insertText(text: string, target: BlockTarget, id: number): void {
+    const blocks = scan(this.source, this.options);
+    let offset: number;
+    let prefix: string;
+    let index: number;
+    let before = false;
+
+    if ("heading" in target) {
+      const heading = scanHeadings(this.source, this.options).find(({ slug }) => slug === target.heading);
+      if (!heading) {
+        throw new Error(`No heading "${target.heading}" in the document`);
+      }
+      offset = heading.end;
+      prefix = heading.prefix;
+      index = blocks.filter(scanned => scanned.openStart < heading.end).length;
+    }
+    else {
+      index = "after" in target ? target.after : target.before;
+      const scanned = blocks[index];
+      if (!scanned) {
+        throw new Error(`No block ${index} in the document (it has ${this.ids.length})`);
+      }
+      const range = blockRange(this.source, scanned);
+      before = "before" in target;
+      offset = before ? range.start : range.end;
+      prefix = scanned.prefix;
+      index += before ? 0 : 1;
+    }
+
+    const eol = detectEol(this.source);
+    const blank = prefix.trimEnd() + eol;
+    const body = prefixLines(text, prefix);
+    // Keep a blank line between the new block and what is around it
+    const lead = offset > 0 && this.source[offset - 1] !== "\n" ? eol : "";
+    const blankBefore = followsBlank(this.source, offset);
+    const blankAfter = offset === this.source.length || blankLine(this.source, offset) !== undefined;
+
+    const insertion = before
+      ? `${blankBefore ? "" : blank}${body}${blank}`
+      : `${lead}${blank}${body}${blankAfter ? "" : blank}`;
+    this.replace(offset, offset, insertion);
+    this.ids.splice(index, 0, id);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Line ending and byte order mark handling
+ * Rewrites keep the line ending style (and BOM) a document already uses
+ */
+
+export type LineEnding = "\r\n" | "\n";
+
+/** UTF-8 byte order mark, as it appears in a decoded string */
+export const BOM = "\uFEFF";
+
+/**
+ * Detect the line ending style of a text from its first line break (LF if there is none)
+ */
+export function detectEol(text: string): LineEnding {
+  return text.match(/\r?\n/)?.[0] === "\r\n" ? "\r\n" : "\n";
+}
+
+/**
+ * Convert every line ending in a text to `eol`
+ */
+export function normalizeEol(text: string, eol: LineEnding): string {
+  return text.replace(/\r?\n/g, eol);
+}
+
+/**
+ * Remove a leading byte order mark
+ */
+export function stripBom(text: string): string {
+  return text.startsWith(BOM) ? text.substring(BOM.length) : text;
+}
@@ -0,0 +1,111 @@
+/**
+ * YAML front matter with document-level defaults
+ * Example:
+ * ---
+ * mdcode:
+ *   base: src/
+ *   meta: { region: main }
+ *   langs:
+ *     sh: { file: setup.sh }
+ * ---
+ */
+
+import { posix } from "node:path";
+
+import { parse as parseYaml } from "yaml";
+
+import type { Block, DocumentDefaults } from "./types.ts";
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Whether a parsed YAML value is a mapping
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a YAML mapping to metadata, keeping scalar values as strings
+ */
+function toMeta(value: unknown): Record<string, string> {
+  const meta: Record<string, string> = {};
+  if (!isMapping(value)) {
+    return meta;
+  }
+
+  for (const [ key, item ] of Object.entries(value)) {
+    if (typeof item === "string" || typeof item === "number" || typeof item === "boolean") {
+      meta[key] = String(item);
+    }
+  }
+
+  return meta;
+}
+
+/**
+ * Length of the front matter at the start of a document (0 if there is none)
+ */
+export function frontMatterLength(source: string): number {
+  return source.match(FRONT_MATTER)?.[0].length || 0;
+}
+
+/**
+ * Read the `mdcode:` defaults from the YAML front matter at the start of a document.
+ * Front matter that is not valid YAML is left to other tools and ignored.
+ */
+export function readDefaults(source: string): DocumentDefaults | undefined {
+  const match = source.match(FRONT_MATTER);
+  if (!match) {
+    return undefined;
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1] || "");
+  }
+  catch {
+    return undefined;
+  }
+
+  const config = isMapping(data) ? data.mdcode : undefined;
+  if (!isMapping(config)) {
+    return undefined;
+  }
+
+  const defaults: DocumentDefaults = {};
+
+  if (typeof config.base === "string" && config.base) {
+    defaults.base = config.base;
+  }
+  if (isMapping(config.meta)) {
+    defaults.meta = toMeta(config.meta);
+  }
+  if (isMapping(config.langs)) {
+    defaults.langs = Object.fromEntries(Object.entries(config.langs).map(([ lang, meta ]) => [ lang, toMeta(meta) ]));
+  }
+
+  return defaults;
+}
+
+/**
+ * Apply document defaults to a block: default meta, then per-lang meta, then the
+ * block's own meta, with `base` prepended to a relative `file`.
+ * The keys taken from the defaults are listed in `inherited`.
+ */
+export function applyDefaults(block: Block, defaults: DocumentDefaults | undefined): Block {
+  if (!defaults) {
+    return block;
+  }
+
+  const langMeta = defaults.langs && Object.hasOwn(defaults.langs, block.lang) ? defaults.langs[block.lang] : undefined;
+  const inheritedMeta = { ...defaults.meta, ...langMeta };
+  const meta = { ...inheritedMeta, ...block.meta };
+  const inherited = Object.keys(inheritedMeta).filter(key => !Object.hasOwn(block.meta, key));
+
+  if (defaults.base && meta.file && !posix.isAbsolute(meta.file)) {
+    meta.file = posix.join(defaults.base, meta.file);
+  }
+
+  return inherited.length > 0 ? { ...block, meta, inherited } : { ...block, meta };
+}
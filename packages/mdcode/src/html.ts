@@ -0,0 +1,323 @@
+/**
+ * HTML support: `<pre><code>` elements with the language in a `language-` class and metadata in `data-` attributes
+ * Example:
+ * <pre><code class="language-js" data-file="app.js" data-region="main">
+ * console.log(&quot;a &lt; b&quot;);
+ * </code></pre>
+ */
+
+import { normalizeEol } from "./eol.ts";
+import type { LineEnding } from "./eol.ts";
+import { slugify, splitLines } from "./scanner.ts";
+import type { MetaComment, ScannedBlock } from "./scanner.ts";
+
+/**
+ * An attribute of a start tag with the offsets of its value within the attribute text
+ */
+interface Attribute {
+  /** Attribute name, in lower case */
+  name: string;
+  /** Offset of the name within the attribute text */
+  start: number;
+  /** Value with entities decoded ("" for an attribute without one) */
+  value: string;
+  /** Offsets of the raw value, quotes included (right after the name when there is none) */
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * A heading enclosing the current position
+ */
+interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+// Start tags that matter to the scanner, and comments; quoted attribute values may hold `>`
+const TOKEN = /<!--([\s\S]*?)(?:-->|$)|<(pre|h[1-6]|script|style|textarea)\b((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+const CODE_START = /\s*<code\b((?:"[^"]*"|'[^']*'|[^'">])*)>/iy;
+const ATTRIBUTE = /([^\s"'=<>`/]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g;
+const ENTITY = /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([A-Za-z][A-Za-z\d]*));/g;
+// Only these names are decoded; others (`&copy;`) are kept in the code as they are
+// and written back unescaped, so they still render as the entity
+const NAMED_ENTITIES = new Map(Object.entries({ amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: "\u00a0" }));
+const LANGUAGE_CLASS = /^(?:language|lang)-(.+)$/;
+const CODE_END = /<\/code\s*>(?:\s*<\/pre\s*>)?/iy;
+const META_COMMENT = /^\s*mdcode(\s[\s\S]*)?$/;
+
+/**
+ * Decode character references (`&lt;`, `&#60;`, `&#x3C;`); unknown names are kept as they are
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(ENTITY, (entity, decimal?: string, hex?: string, name?: string) => {
+    if (name !== undefined) {
+      return NAMED_ENTITIES.get(name) ?? entity;
+    }
+    const codePoint = decimal !== undefined ? Number.parseInt(decimal, 10) : Number.parseInt(hex || "", 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+/**
+ * Escape text for the content of an element. A named reference that
+ * `decodeEntities` does not decode is kept, so it round-trips.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&(?:([A-Za-z][A-Za-z\d]*);)?/g, (match, name?: string) => name !== undefined && !NAMED_ENTITIES.has(name) ? match : `&amp;${match.substring(1)}`)
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Split the attribute text of a start tag into its attributes
+ */
+function attributes(text: string): Array<Attribute> {
+  const result: Array<Attribute> = [];
+
+  for (const match of text.matchAll(ATTRIBUTE)) {
+    const raw = match[2] || "";
+    const valueEnd = match.index + match[0].length;
+    const quoted = raw.startsWith("\"") || raw.startsWith("'");
+    result.push({
+      name: (match[1] || "").toLowerCase(),
+      start: match.index,
+      value: decodeEntities(quoted ? raw.slice(1, -1) : raw),
+      valueStart: valueEnd - raw.length,
+      valueEnd,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Quote an attribute value
+ */
+function quote(value: string): string {
+  return `"${value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`;
+}
+
+/**
+ * Parse the attributes of a `<code>` tag: `class="language-js" data-file="app.js"`.
+ * The language comes from a `language-` (or `lang-`) class; `data-` attributes
+ * become metadata without their prefix, and one without a value is "true".
+ */
+export function parseCodeAttributes(info: string): { lang: string; meta: Record<string, string>; } {
+  let lang = "";
+  const meta: Record<string, string> = {};
+
+  for (const attribute of attributes(info)) {
+    if (attribute.name === "class") {
+      lang = attribute.value.split(/\s+/).map(name => name.match(LANGUAGE_CLASS)?.[1]).find(Boolean) || lang;
+    }
+    else if (attribute.name.startsWith("data-")) {
+      meta[attribute.name.substring(5)] = attribute.valueStart === attribute.valueEnd ? "true" : attribute.value;
+    }
+  }
+
+  return { lang, meta };
+}
+
+/**
+ * Apply metadata updates to the attributes of a `<code>` tag.
+ * Existing `data-` attributes get the new value and new ones are appended.
+ */
+export function updateCodeAttributes(info: string, updates: Record<string, string>): string {
+  const pending = new Map(Object.entries(updates));
+  let result = info;
+
+  for (const attribute of attributes(info).reverse()) {
+    const key = attribute.name.substring(5);
+    const value = pending.get(key);
+    if (!attribute.name.startsWith("data-") || value === undefined) {
+      continue;
+    }
+    pending.delete(key);
+    const text = attribute.valueStart === attribute.valueEnd ? `=${quote(value)}` : quote(value);
+    result = result.substring(0, attribute.valueStart) + text + result.substring(attribute.valueEnd);
+  }
+
+  const appended = [ ...pending ].map(([ key, value ]) => `data-${key}=${quote(value)}`);
+  return [ result.trimEnd(), ...appended ].filter(Boolean).join(" ");
+}
+
+/**
+ * Set the language of a `<code>` tag: its `language-` class is replaced (or
+ * removed for an empty language), and other classes are kept
+ */
+export function updateCodeLang(info: string, lang: string): string {
+  const language = lang ? `language-${lang}` : "";
+  const attribute = attributes(info).find(({ name }) => name === "class");
+
+  if (!attribute) {
+    return [ language && `class=${quote(language)}`, info ].filter(Boolean).join(" ");
+  }
+
+  const names = attribute.value.split(/\s+/).filter(Boolean);
+  const classes = names.some(name => LANGUAGE_CLASS.test(name))
+    ? names.map(name => LANGUAGE_CLASS.test(name) ? language : name)
+    : [ language, ...names ];
+  const value = classes.filter(Boolean).join(" ");
+
+  if (value === attribute.value) {
+    return info;
+  }
+  const text = attribute.valueStart === attribute.valueEnd ? `=${quote(value)}` : quote(value);
+  return info.substring(0, attribute.valueStart) + text + info.substring(attribute.valueEnd);
+}
+
+/**
+ * Remove `data-` attributes from a `<code>` tag
+ */
+export function removeDataAttributes(info: string, keys: Array<string>): string {
+  let result = info;
+
+  for (const attribute of attributes(info).reverse()) {
+    if (attribute.name.startsWith("data-") && keys.includes(attribute.name.substring(5))) {
+      result = result.substring(0, attribute.start).trimEnd() + result.substring(attribute.valueEnd);
+    }
+  }
+
+  return result.trim();
+}
+
+/**
+ * Find `data-` attributes that appear more than once on a `<code>` tag
+ */
+export function duplicateDataKeys(info: string): Array<string> {
+  const names = attributes(info).map(attribute => attribute.name).filter(name => name.startsWith("data-"));
+  return [ ...new Set(names.filter((name, index) => names.indexOf(name) !== index)) ].map(name => name.substring(5));
+}
+
+/**
+ * Write code into a `<code>` element: escaped, in the document's line endings, and
+ * ending with a line ending only if the old content did (`</code>` may be on a line
+ * of its own or right after the code)
+ */
+export function writeHtmlCode(code: string, scanned: ScannedBlock, eol: LineEnding, source: string): string {
+  const text = escapeHtml(normalizeEol(code, eol)).replace(/\r?\n$/, "");
+  const newline = text.length > 0 && /\n$/.test(source.substring(scanned.codeStart, scanned.codeEnd));
+  return newline ? text + eol : text;
+}
+
+/**
+ * Find the end tag of an element, or the end of the source if it is missing
+ */
+function findEndTag(source: string, name: string, from: number): number {
+  const pattern = new RegExp(`</${name}\\b`, "gi");
+  pattern.lastIndex = from;
+  return pattern.exec(source)?.index ?? source.length;
+}
+
+/**
+ * Get the plain text of a heading: tags are dropped and whitespace collapsed
+ */
+function headingText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Scan HTML source for `<pre><code>` elements (in any letter case).
+ *
+ * The attributes of the `<code>` tag are the block's `info`. The content is the
+ * code, with character references decoded and without a newline right after the
+ * `<code>` tag; rewrites escape `&`, `<` and `>` again. An `<!-- mdcode key=value -->`
+ * comment right before the `<pre>` is attached as `comment`.
+ *
+ * Comments and the content of `<script>`, `<style>` and `<textarea>` are skipped.
+ * `<h1>` to `<h6>` give the headings; a heading's `id` sets the slug.
+ */
+export function scanHtml(source: string): Array<ScannedBlock> {
+  const blocks: Array<ScannedBlock> = [];
+  const headings: Array<Heading> = [];
+  const slugs = new Map<string, number>();
+  let comment: { comment: MetaComment; end: number; } | undefined;
+
+  const pattern = new RegExp(TOKEN.source, TOKEN.flags);
+  let match;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const tagStart = match.index;
+    const tagEnd = tagStart + match[0].length;
+    const name = match[2]?.toLowerCase();
+
+    if (name === undefined) {
+      const directive = (match[1] || "").match(META_COMMENT);
+      if (directive && match[0].endsWith("-->")) {
+        const start = tagStart + 4 + (match[1] || "").length - (directive[1] || "").length;
+        comment = { comment: { text: (directive[1] || "").trim(), start, end: tagEnd - 3 }, end: tagEnd };
+      }
+      continue;
+    }
+
+    // Only whitespace (and at most one line break) between the comment and the block
+    const attached = comment && /^[ \t]*(?:\r?\n)?[ \t]*$/.test(source.substring(comment.end, tagStart)) ? comment.comment : undefined;
+    comment = undefined;
+
+    if (name === "script" || name === "style" || name === "textarea") {
+      pattern.lastIndex = findEndTag(source, name, tagEnd);
+      continue;
+    }
+
+    if (name !== "pre") {
+      const level = Number(name.substring(1));
+      const text = headingText(source.substring(tagEnd, findEndTag(source, name, tagEnd)));
+      const id = attributes(match[3] || "").find(attribute => attribute.name === "id")?.value;
+
+      while ((headings.at(-1)?.level ?? 0) >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text, slug: id || slugify(text, slugs) });
+      continue;
+    }
+
+    CODE_START.lastIndex = tagEnd;
+    const code = CODE_START.exec(source);
+    if (!code) {
+      continue;
+    }
+
+    const rawInfo = code[1] || "";
+    const info = rawInfo.trim();
+    const infoStart = tagEnd + code[0].length - 1 - rawInfo.length + (rawInfo.length - rawInfo.trimStart().length);
+    const openEnd = tagEnd + code[0].length;
+    const leadingNewline = source.substring(openEnd).match(/^\r?\n/)?.[0] || "";
+    const codeStart = openEnd + leadingNewline.length;
+
+    // The end tags of the `<code>` and `<pre>` elements are the closing "fence"
+    const codeEnd = findEndTag(source, "code", codeStart);
+    CODE_END.lastIndex = codeEnd;
+    const closeEnd = codeEnd < source.length ? codeEnd + (CODE_END.exec(source)?.[0].length ?? 0) : undefined;
+
+    blocks.push({
+      kind: "fenced",
+      char: "",
+      length: 0,
+      prefix: "",
+      indent: "",
+      info,
+      infoStart,
+      infoEnd: infoStart + info.length,
+      openStart: source.lastIndexOf("\n", tagStart - 1) + 1,
+      blockStart: tagStart,
+      openEnd,
+      codeStart,
+      codeEnd,
+      lines: splitLines(source.substring(codeStart, codeEnd)).map(line => decodeEntities(line.text) + line.eol),
+      closed: closeEnd !== undefined,
+      closeStart: closeEnd === undefined ? undefined : codeEnd,
+      closeEnd,
+      strayFences: [],
+      comment: attached,
+      headings: headings.map(heading => heading.text),
+      slug: headings.at(-1)?.slug || "",
+    });
+
+    pattern.lastIndex = closeEnd ?? source.length;
+  }
+
+  return blocks;
+}
@@ -1,25 +1,31 @@
 import { readFile } from "node:fs/promises";
 
 import { update } from "./commands/update.ts";
+import { syntaxForPath } from "./parser.ts";
 import type { FilterOptions, TransformerFunction } from "./types.ts";
 
 // Public API exports
 export * from "./types.ts";
 export * from "./parser.ts";
+export * from "./mdast.ts";
 export * from "./cli.ts";
+export { Document } from "./document.ts";
 
 // Export commands for programmatic use
 export { extract } from "./commands/extract.ts";
-export { update } from "./commands/update.ts";
+export { update, updateMdast } from "./commands/update.ts";
 export { list } from "./commands/list.ts";
 export { run } from "./commands/run.ts";
 export { dump } from "./commands/dump.ts";
+export { doctest } from "./commands/doctest.ts";
 export { transform, transformWithFunction } from "./commands/transform.ts";
 
 /**
  * Default export - Simple API for transforming markdown files
  *
- * @param filePath - Path to the markdown file
+ * @param filePath - Path to the document; its format follows the extension, as `syntaxForPath()` picks it
+ *   (MDX, AsciiDoc, reStructuredText, Org, Jupyter notebooks, HTML, Python docstrings, JS/TS doc comments,
+ *   or the adapter registered with `registerAdapter()`), and anything else is markdown
  * @param transformer - Function to transform code blocks
  * @param filter - Optional filter to apply to blocks
  * @returns Promise of transformed markdown string
@@ -40,7 +46,7 @@ async function mdcode(
   filter?: FilterOptions
 ): Promise<string> {
   const source = await readFile(filePath, "utf-8");
-  return update({ source, transformer, filter });
+  return update({ source, transformer, filter, ...syntaxForPath(filePath) });
 }
 
 export default mdcode;
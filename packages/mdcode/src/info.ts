@@ -0,0 +1,415 @@
+/**
+ * Info string parsing and serialisation
+ * Format: language key=value key2="quoted value" flag
+ * or Pandoc/kramdown attributes: {.language #name key=value}
+ */
+
+import { getCommentStyle } from "./region.ts";
+
+/**
+ * A single whitespace-separated token of an info string
+ */
+interface InfoToken {
+  /** Key (or the whole token for flags) with quotes and escapes resolved */
+  key: string;
+  /** Value after the first `=`, or "true" for flags */
+  value: string;
+  /** Whether the token has no `=` */
+  flag: boolean;
+  /** Offsets of the raw token within the info string */
+  start: number;
+  end: number;
+}
+
+/**
+ * Split an info string into tokens.
+ * Single or double quotes group text containing whitespace; inside quotes a
+ * backslash escapes the next character. Outside quotes backslashes are literal,
+ * so Windows paths keep working.
+ */
+function tokenize(info: string): Array<InfoToken> {
+  const tokens: Array<InfoToken> = [];
+  let i = 0;
+
+  while (i < info.length) {
+    if (/\s/.test(info[i] || "")) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let text = "";
+    let equalIndex = -1;
+    let quote = "";
+
+    for (; i < info.length; i++) {
+      const char = info[i] || "";
+
+      if (quote) {
+        if (char === quote) {
+          quote = "";
+        }
+        else if (char === "\\" && i + 1 < info.length) {
+          text += info[++i];
+        }
+        else {
+          text += char;
+        }
+      }
+      else if (char === "\"" || char === "'") {
+        quote = char;
+      }
+      else if (/\s/.test(char)) {
+        break;
+      }
+      else {
+        if (char === "=" && equalIndex < 0) {
+          equalIndex = text.length;
+        }
+        text += char;
+      }
+    }
+
+    tokens.push(equalIndex < 0
+      ? { key: text, value: "true", flag: true, start, end: i }
+      : { key: text.substring(0, equalIndex), value: text.substring(equalIndex + 1), flag: false, start, end: i });
+  }
+
+  return tokens;
+}
+
+/**
+ * The `{...}` attribute part of an info string
+ */
+interface Attributes {
+  /** Text before the opening brace (may hold the language) */
+  before: string;
+  /** Offset of the text between the braces */
+  innerStart: number;
+  /** Tokens between the braces, with `#id` mapped to the `name` key */
+  tokens: Array<InfoToken>;
+  /** Class names (`.class`), in order */
+  classes: Array<string>;
+}
+
+/**
+ * Find Pandoc/kramdown attributes at the end of an info string.
+ * Every token between the braces must be a `.class`, an `#id` or a key=value
+ * pair, so line-highlight ranges such as `{1,3}` are not mistaken for them.
+ */
+function findAttributes(info: string): Attributes | undefined {
+  const match = info.match(/^([^{]*)\{(.*)\}\s*$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const before = match[1] || "";
+  const innerStart = before.length + 1;
+  const tokens: Array<InfoToken> = [];
+  const classes: Array<string> = [];
+
+  for (const token of tokenize(match[2] || "")) {
+    const shifted = { ...token, start: token.start + innerStart, end: token.end + innerStart };
+
+    if (token.flag && token.key.startsWith(".") && token.key.length > 1) {
+      classes.push(token.key.substring(1));
+    }
+    else if (token.flag && token.key.startsWith("#") && token.key.length > 1) {
+      tokens.push({ ...shifted, key: "name", value: token.key.substring(1), flag: false });
+    }
+    else if (!token.flag) {
+      tokens.push(shifted);
+    }
+    else {
+      return undefined;
+    }
+  }
+
+  return { before, innerStart, tokens, classes };
+}
+
+/**
+ * Get the metadata tokens of an info string (everything but the language)
+ */
+function metaTokens(info: string, attributes: Attributes | undefined): Array<InfoToken> {
+  if (attributes) {
+    return attributes.tokens;
+  }
+  const tokens = tokenize(info);
+  return tokens[0]?.flag ? tokens.slice(1) : tokens;
+}
+
+/**
+ * Find keys that appear more than once
+ */
+function findDuplicates(tokens: Array<InfoToken>): Array<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const { key } of tokens) {
+    if (seen.has(key)) {
+      duplicates.add(key);
+    }
+    seen.add(key);
+  }
+
+  return [ ...duplicates ];
+}
+
+/**
+ * Parse metadata from the info string of a code block.
+ * The first token is the language unless it is a key=value pair.
+ * Bare flags (e.g. `hidden`) are stored as "true".
+ * Example: `js file=foo.js title="Hello world" hidden`
+ *
+ * With attribute syntax the first class is the language (unless one precedes
+ * the braces), `#id` becomes `name` and any other classes are kept in `class`.
+ * Example: `{.python #setup file=setup.py}`
+ */
+export function parseInfoString(info: string | null | undefined): { lang: string; meta: Record<string, string>; } {
+  const attributes = findAttributes(info || "");
+  const tokens = attributes ? attributes.tokens : tokenize(info || "");
+  const meta: Record<string, string> = {};
+  let lang = "";
+
+  if (attributes) {
+    const classes = [ ...attributes.classes ];
+    lang = attributes.before.trim().split(/\s+/)[0] || classes.shift() || "";
+    if (classes.length > 0) {
+      meta.class = classes.join(" ");
+    }
+  }
+  else if (tokens[0]?.flag) {
+    lang = tokens.shift()?.key || "";
+  }
+
+  for (const { key, value } of tokens) {
+    if (key) {
+      meta[key] = value;
+    }
+  }
+
+  return { lang, meta };
+}
+
+/**
+ * Quote a metadata value if it cannot be written bare
+ */
+function formatValue(value: string): string {
+  if (value === "" || /^[^\s"'\\{}]+$/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Format a single key=value pair
+ */
+function formatPair(key: string, value: string): string {
+  return `${formatValue(key)}=${formatValue(value)}`;
+}
+
+/**
+ * Rewrite the tokens for updated keys in place
+ * @returns The rewritten text and the formatted pairs for keys that were not found
+ */
+function rewriteTokens(
+  text: string,
+  tokens: Array<InfoToken>,
+  updates: Record<string, string>,
+  format: (key: string, value: string) => string
+): { result: string; appended: Array<string>; } {
+  const pending = new Map(Object.entries(updates));
+  let result = text;
+
+  for (const token of [ ...tokens ].reverse()) {
+    const value = Object.hasOwn(updates, token.key) ? updates[token.key] : undefined;
+    if (value === undefined) {
+      continue;
+    }
+
+    const replacement = token.flag && value === "true" ? text.substring(token.start, token.end) : format(token.key, value);
+    result = result.substring(0, token.start) + replacement + result.substring(token.end);
+    pending.delete(token.key);
+  }
+
+  return { result, appended: [ ...pending ].map(([ key, value ]) => format(key, value)) };
+}
+
+/**
+ * Whether a metadata key and value can be written to the info string of a fence
+ * made of `fence` characters: a backtick (even a quoted one) stops a ``` line from
+ * being a fence, so the block would be lost
+ */
+export function fitsInfoString(key: string, value: string, fence: string): boolean {
+  return fence === "~" || !`${key}${value}`.includes("`");
+}
+
+/**
+ * Apply metadata updates to an existing info string.
+ * Only the tokens for updated keys are rewritten (flags stay flags while their
+ * value is "true"); new keys are appended. Everything else is kept verbatim,
+ * including attribute syntax, where `name` is written as `#id`.
+ * In the info string of a backtick fence (the default), keys and values with a
+ * backtick are rejected (they belong in a metadata comment).
+ */
+export function updateInfoString(info: string, updates: Record<string, string>, fence = "`"): string {
+  const attributes = findAttributes(info);
+
+  const format = (key: string, value: string): string => {
+    if (!fitsInfoString(key, value, fence)) {
+      throw new Error(`Metadata ${key}=${value} cannot be written to an info string: it contains a backtick`);
+    }
+    return attributes && key === "name" && /^[^\s"'\\{}]+$/.test(value) ? `#${value}` : formatPair(key, value);
+  };
+
+  // The language token is never a metadata key
+  const { result, appended } = rewriteTokens(info, metaTokens(info, attributes), updates, format);
+  if (appended.length === 0) {
+    return result;
+  }
+
+  if (attributes) {
+    // Insert new attributes before the closing brace
+    const close = result.lastIndexOf("}");
+    const inner = result.substring(0, close).trimEnd();
+    const separator = inner.endsWith("{") ? "" : " ";
+    return `${inner}${separator}${appended.join(" ")}${result.substring(close)}`;
+  }
+
+  return [ result.trimEnd(), ...appended ].filter(Boolean).join(" ");
+}
+
+/**
+ * Remove the tokens for the given keys, with the whitespace before them
+ * (or after them, for a token that has none before it)
+ */
+function removeTokens(text: string, tokens: Array<InfoToken>, keys: Array<string>): string {
+  let result = text;
+
+  for (const token of [ ...tokens ].reverse()) {
+    if (!keys.includes(token.key)) {
+      continue;
+    }
+    const before = result.substring(0, token.start).match(/\s*$/)?.[0].length || 0;
+    const after = before > 0 ? 0 : result.substring(token.end).match(/^\s*/)?.[0].length || 0;
+    result = result.substring(0, token.start - before) + result.substring(token.end + after);
+  }
+
+  return result;
+}
+
+/**
+ * Remove metadata keys from an info string, keeping everything else verbatim
+ */
+export function removeInfoKeys(info: string, keys: Array<string>): string {
+  return removeTokens(info, metaTokens(info, findAttributes(info)), keys);
+}
+
+/**
+ * Set the language of an info string (an empty one removes it).
+ * With attribute syntax the language class is replaced, or the language is
+ * written before the braces.
+ */
+export function updateInfoLang(info: string, lang: string): string {
+  const attributes = findAttributes(info);
+  const replace = (start: number, end: number) => `${info.substring(0, start)}${lang}${info.substring(end)}`.trimStart();
+
+  if (attributes) {
+    const current = attributes.before.trim().split(/\s+/)[0];
+    if (current) {
+      const start = attributes.before.indexOf(current);
+      return replace(start, start + current.length);
+    }
+
+    // Otherwise the first class is the language
+    const inner = info.substring(attributes.innerStart, info.lastIndexOf("}"));
+    const language = tokenize(inner).find(token => token.flag && token.key.startsWith(".") && token.key.length > 1);
+    if (!language) {
+      return lang ? `${lang} ${info}` : info;
+    }
+    const token = { ...language, start: language.start + attributes.innerStart, end: language.end + attributes.innerStart };
+    return lang
+      ? `${info.substring(0, token.start)}.${lang}${info.substring(token.end)}`
+      : removeTokens(info, [ token ], [ token.key ]);
+  }
+
+  const first = tokenize(info)[0];
+  return first?.flag ? replace(first.start, first.end) : [ lang, info ].filter(Boolean).join(" ");
+}
+
+/**
+ * Compare two sets of metadata: the keys set to a new value in `after`, and the keys it no longer has
+ * @param inherited - Keys that came from front matter defaults: they are not in the block's source, so they are never removed
+ */
+export function diffMeta(before: Record<string, string>, after: Record<string, string>, inherited: Array<string> = []): { updates: Record<string, string>; removed: Array<string>; } {
+  const updates = Object.fromEntries(Object.entries(after).filter(([ key, value ]) => before[key] !== value));
+  const removed = Object.keys(before).filter(key => !Object.hasOwn(after, key) && !inherited.includes(key));
+  return { updates, removed };
+}
+
+/**
+ * Find metadata keys that appear more than once in an info string
+ */
+export function duplicateInfoKeys(info: string): Array<string> {
+  return findDuplicates(metaTokens(info, findAttributes(info)));
+}
+
+/**
+ * Find keys that appear more than once in a metadata-only string
+ */
+export function duplicateMetaKeys(text: string): Array<string> {
+  return findDuplicates(tokenize(text));
+}
+
+/**
+ * Parse a metadata-only string, such as the body of an `<!-- mdcode ... -->` comment.
+ * Every token is metadata; there is no language.
+ */
+export function parseMetaString(text: string): Record<string, string> {
+  const meta: Record<string, string> = {};
+
+  for (const { key, value } of tokenize(text)) {
+    if (key) {
+      meta[key] = value;
+    }
+  }
+
+  return meta;
+}
+
+/**
+ * Apply metadata updates to a metadata-only string
+ */
+export function updateMetaString(text: string, updates: Record<string, string>): string {
+  const { result, appended } = rewriteTokens(text, tokenize(text), updates, formatPair);
+  return [ result.trimEnd(), ...appended ].filter(Boolean).join(" ");
+}
+
+/**
+ * Remove keys from a metadata-only string
+ */
+export function removeMetaKeys(text: string, keys: Array<string>): string {
+  return removeTokens(text, tokenize(text), keys).trim();
+}
+
+// Keys a first-line comment may set, so ordinary comments (`// Note: ...`) are left alone
+const HEADER_KEYS = [ "file", "region", "name", "title", "outline" ];
+
+/**
+ * Parse a `key: value` comment on the first line of a code block,
+ * e.g. `// file: src/index.ts` or `# file: app.py`, for the keys in HEADER_KEYS.
+ * Uses the language's comment style from getCommentStyle().
+ * @returns The header line and its metadata, or undefined if the first line is not a header
+ */
+export function parseHeaderComment(code: string, lang: string): { header: string; meta: Record<string, string>; } | undefined {
+  const header = code.split(/\r?\n/, 1)[0] || "";
+  const styles = getCommentStyle(lang).map(style => style.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  const match = header.match(new RegExp(`^\\s*(?:${styles})\\s*([A-Za-z][\\w-]*):\\s*(\\S.*?)\\s*(?:-->)?\\s*$`));
+
+  if (!match?.[1] || !match[2] || !HEADER_KEYS.includes(match[1])) {
+    return undefined;
+  }
+
+  return { header, meta: { [match[1]]: match[2] } };
+}
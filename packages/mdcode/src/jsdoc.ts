@@ -0,0 +1,227 @@
+/**
+ * JSDoc support: fenced code blocks inside the `/** ... *\/` comments of JavaScript and TypeScript source
+ * Example:
+ * /**
+ *  * @example
+ *  * ```ts file=examples/parse.ts region=main
+ *  * parse({ source });
+ *  * ```
+ *  *\/
+ */
+
+import { scan, slugify, splitLines } from "./scanner.ts";
+import type { ScannedBlock } from "./scanner.ts";
+import type { SyntaxOptions } from "./types.ts";
+
+/**
+ * A line of a doc comment with its ` * ` prefix stripped
+ */
+interface BodyLine {
+  /** Offset of the line in the comment body */
+  bodyStart: number;
+  /** Offsets of the line and of its content (after the prefix) in the source */
+  lineStart: number;
+  contentStart: number;
+  prefix: string;
+}
+
+const LINE_PREFIX = /^[ \t]*\*(?: |(?=\t)|$)?/;
+// Declarations that a doc comment documents
+const DECLARATION = /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const MEMBER = /^\s*(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set)\s+)*\*?\s*(#?[A-Za-z_$][\w$]*)\s*[?!]?\s*[(<:=;]/;
+// Characters after which a `/` starts a regular expression rather than a division
+const REGEX_CONTEXT = /(?:^|[(,=:[!&|?{};+\-*%<>~^]|\b(?:return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await))\s*$/;
+
+/**
+ * Find the `/** ... *\/` comments in JavaScript or TypeScript source, skipping
+ * strings, template literals, regular expressions and other comments
+ */
+function docComments(source: string): Array<{ start: number; end: number; }> {
+  const comments: Array<{ start: number; end: number; }> = [];
+  // Open template literals (`) and `${` substitutions
+  const stack: Array<string> = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (stack.at(-1) === "`") {
+      if (char === "\\") {
+        i += 2;
+      }
+      else if (char === "`") {
+        stack.pop();
+        i++;
+      }
+      else if (char === "$" && next === "{") {
+        stack.push("${");
+        i += 2;
+      }
+      else {
+        i++;
+      }
+      continue;
+    }
+
+    if (char === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      i = end < 0 ? source.length : end;
+    }
+    else if (char === "/" && next === "*") {
+      const close = source.indexOf("*/", i + 2);
+      const end = close < 0 ? source.length : close + 2;
+      // `/**/` is empty and `/***` is a banner, not a doc comment
+      if (source[i + 2] === "*" && source[i + 3] !== "*" && source[i + 3] !== "/") {
+        comments.push({ start: i, end });
+      }
+      i = end;
+    }
+    else if (char === "\"" || char === "'") {
+      i++;
+      while (i < source.length && source[i] !== char && source[i] !== "\n") {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      i++;
+    }
+    else if (char === "`") {
+      stack.push("`");
+      i++;
+    }
+    else if (char === "{" && stack.length > 0) {
+      stack.push("{");
+      i++;
+    }
+    else if (char === "}" && stack.length > 0) {
+      stack.pop();
+      i++;
+    }
+    else if (char === "/" && REGEX_CONTEXT.test(source.substring(Math.max(0, i - 20), i))) {
+      // Skip the regular expression, including `/` inside character classes
+      let inClass = false;
+      i++;
+      while (i < source.length && source[i] !== "\n" && (inClass || source[i] !== "/")) {
+        if (source[i] === "\\") {
+          i++;
+        }
+        else if (source[i] === "[") {
+          inClass = true;
+        }
+        else if (source[i] === "]") {
+          inClass = false;
+        }
+        i++;
+      }
+      i++;
+    }
+    else {
+      i++;
+    }
+  }
+
+  return comments;
+}
+
+/**
+ * Get the name declared after a doc comment (a function, class, variable or member)
+ */
+function declarationName(source: string, offset: number): string {
+  const line = source.substring(offset).split(/\r?\n/).find(text => text.trim() !== "") || "";
+  return line.match(DECLARATION)?.[1] || line.match(MEMBER)?.[1] || "";
+}
+
+/**
+ * Strip the ` * ` prefixes from the lines of a doc comment.
+ * The line holding `*\/` ends the body; it is kept as the position right after the last line.
+ */
+function commentBody(source: string, start: number, end: number): { body: string; lines: Array<BodyLine>; } {
+  const inner = source.substring(start + 3, Math.max(start + 3, end - 2));
+  const lines: Array<BodyLine> = [];
+  let body = "";
+
+  for (const [ index, line ] of splitLines(inner).entries()) {
+    const lineStart = start + 3 + line.start;
+    const last = index > 0 && line.end === inner.length;
+    const prefix = index === 0 ? "" : line.text.match(LINE_PREFIX)?.[0] || "";
+
+    if (last && line.text.substring(prefix.length).trim() === "") {
+      // The closing `*\/` line
+      lines.push({ bodyStart: body.length, lineStart, contentStart: lineStart + line.text.length, prefix: "" });
+      break;
+    }
+
+    lines.push({ bodyStart: body.length, lineStart, contentStart: lineStart + prefix.length, prefix });
+    body += line.text.substring(prefix.length) + line.eol;
+  }
+
+  return { body, lines };
+}
+
+/**
+ * Scan JavaScript or TypeScript source for fenced code blocks in doc comments.
+ *
+ * The body of each `/** ... *\/` comment (without the ` * ` line prefixes) is
+ * scanned as markdown, and offsets are mapped back to the source. The comment
+ * prefix of the opening fence line is added to the block's `prefix`, so rewrites
+ * put it back on every line; `*\/` in code is read from (and written as) `*\/`.
+ *
+ * The name of the declaration after the comment is the first heading, followed
+ * by any markdown headings inside the comment.
+ */
+export function scanJsdoc(source: string, options: SyntaxOptions = {}): Array<ScannedBlock> {
+  const blocks: Array<ScannedBlock> = [];
+  const slugs = new Map<string, number>();
+
+  for (const { start, end } of docComments(source)) {
+    const { body, lines } = commentBody(source, start, end);
+    const scanned = scan(body, { indented: options.indented });
+    if (scanned.length === 0) {
+      continue;
+    }
+
+    const lineAt = (offset: number) => lines.filter(line => line.bodyStart <= offset).at(-1) || lines[0];
+    // Offsets after the prefix
+    const at = (offset: number) => {
+      const line = lineAt(offset);
+      return line ? line.contentStart + offset - line.bodyStart : start;
+    };
+    // Offsets of line starts (where rewritten code lines begin, prefix included)
+    const lineStart = (offset: number) => {
+      const line = lineAt(offset);
+      return line?.bodyStart === offset ? line.lineStart : at(offset);
+    };
+
+    const name = declarationName(source, end);
+    const slug = name ? slugify(name, slugs) : "";
+
+    for (const block of scanned) {
+      blocks.push({
+        ...block,
+        prefix: (lineAt(block.infoStart)?.prefix || "") + block.prefix,
+        infoStart: at(block.infoStart),
+        infoEnd: at(block.infoEnd),
+        openStart: lineStart(block.openStart),
+        blockStart: at(block.blockStart),
+        openEnd: at(block.openEnd),
+        codeStart: lineStart(block.codeStart),
+        codeEnd: lineStart(block.codeEnd),
+        closeStart: block.closeStart === undefined ? undefined : at(block.closeStart),
+        closeEnd: block.closeEnd === undefined ? undefined : at(block.closeEnd),
+        lines: block.lines.map(line => line.replace(/\*\\\//g, "*/")),
+        strayFences: block.strayFences.map(stray => ({ start: at(stray.start), end: at(stray.end) })),
+        comment: block.comment && { ...block.comment, start: at(block.comment.start), end: at(block.comment.end) },
+        headings: name ? [ name, ...block.headings ] : block.headings,
+        slug: block.slug || slug,
+      });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Escape `*\/` in code written into a doc comment, so it does not end the comment
+ */
+export function escapeCommentCode(code: string): string {
+  return code.replace(/\*\//g, "*\\/");
+}
@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/no-floating-promises */
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { fromMdast, toMdast, walkMdast } from "./mdast.ts";
+import type { MdastCode, MdastNode } from "./mdast.ts";
+import { parseInfoString } from "./info.ts";
+import { parse } from "./parser.ts";
+
+const source = "# Guide\n\n```js file=app.js title=\"Hello world\"\nold();\n```\n\n    indented\n";
+
+// The tree remark builds for `source`
+function tree(): { root: MdastNode; fenced: MdastCode; indented: MdastCode; } {
+  const fenced: MdastCode = {
+    type: "code",
+    lang: "js",
+    meta: "file=app.js title=\"Hello world\"",
+    value: "old();",
+    position: { start: { line: 3, column: 1, offset: 9 }, end: { line: 5, column: 4, offset: 57 } },
+  };
+  const indented: MdastCode = {
+    type: "code",
+    lang: null,
+    meta: null,
+    value: "indented",
+    position: { start: { line: 7, column: 1, offset: 59 }, end: { line: 7, column: 13, offset: 71 } },
+  };
+  const heading = { type: "heading", depth: 1, children: [ { type: "text", value: "Guide" } ] };
+  return { root: { type: "root", children: [ heading, fenced, indented ] }, fenced, indented };
+}
+
+describe("mdast.toMdast", () => {
+  it("should convert blocks to code nodes spanning their fences", () => {
+    const { fenced, indented } = tree();
+    assert.deepEqual(parse({ source, indented: true }).map(block => toMdast(block, { source })),[ fenced, indented ]);
+    assert.deepEqual(toMdast(parse({ source, indented: true })[1]!).position?.end,{ line: 8, column: 1, offset: 72 });
+  });
+
+  it("should write metadata that parses back to the same values", () => {
+    const node = toMdast({ lang: "", meta: { file: "a b.js", hidden: "true" }, code: "x" });
+    assert.deepEqual(node,{ type: "code", lang: null, meta: "file=\"a b.js\" hidden=true", value: "x" });
+    assert.deepEqual(parseInfoString(node.meta),{ lang: "", meta: { file: "a b.js", hidden: "true" } });
+  });
+});
+
+describe("mdast.fromMdast", () => {
+  it("should read lang and meta like an info string", () => {
+    const { fenced } = tree();
+    assert.deepEqual(fromMdast(fenced),{ lang: "js", meta: { file: "app.js", title: "Hello world" }, code: "old();" });
+    assert.deepEqual(fromMdast({ type: "code", lang: "file=a.js", meta: null, value: "" }).meta,{ file: "a.js" });
+    assert.deepEqual(fromMdast({ type: "code", lang: "{.py", meta: "#setup}", value: "" }),{ lang: "py", meta: { name: "setup" }, code: "" });
+  });
+
+  it("should take positions and headings from the source", () => {
+    const { fenced, indented } = tree();
+    const [ parsedFenced, parsedIndented ] = parse({ source, indented: true });
+    assert.deepEqual(fromMdast(fenced, { source }).position,parsedFenced?.position);
+    assert.deepEqual(fromMdast(indented, { source }).position,parsedIndented?.position);
+    assert.deepEqual(fromMdast(fenced, { source }).headings,[ "Guide" ]);
+    assert.equal(fromMdast(fenced, { source }).slug,"guide");
+  });
+});
+
+describe("mdast.walkMdast", () => {
+  it("should change code nodes in place", async () => {
+    const { root, fenced, indented } = tree();
+    const result = await walkMdast({ tree: root, source, filter: { lang: "js" }, walker: block => ({ ...block, code: `${block.code}\nnext();\n` }) });
+
+    assert.equal(result.modified,true);
+    assert.deepEqual(result.blocks.map(block => block.position?.code?.start.line),[ 4 ]);
+    assert.equal(fenced.value,"old();\nnext();");
+    assert.equal(indented.value,"indented");
+  });
+
+  it("should empty a node when the walker returns null", async () => {
+    const { root, fenced } = tree();
+    assert.equal((await walkMdast({ tree: root, walker: block => block })).modified,false);
+    assert.equal((await walkMdast({ tree: root, walker: block => block.lang ? null : block })).modified,true);
+    assert.equal(fenced.value,"");
+  });
+
+  it("should write a new language and metadata to lang and meta", async () => {
+    const { root, fenced, indented } = tree();
+    const result = await walkMdast({
+      tree: root,
+      walker: block => block.lang ? { ...block, lang: "ts", meta: { file: "app.ts", region: "main" } } : { ...block, lang: "txt" },
+    });
+
+    assert.deepEqual(result.changes.map(({ fields }) => fields),[ [ "lang", "meta" ], [ "lang" ] ]);
+    assert.equal(fenced.lang,"ts");
+    assert.equal(fenced.meta,"file=app.ts region=main");
+    assert.equal(indented.lang,"txt");
+    assert.equal(indented.meta,null);
+  });
+});
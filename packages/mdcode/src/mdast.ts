@@ -0,0 +1,200 @@
+/**
+ * mdast interoperability: converting blocks to and from mdast `code` nodes, and walking mdast trees.
+ * Nodes are plain objects shaped like mdast (unist) nodes, so remark is not needed at runtime.
+ * Example:
+ * { type: "code", lang: "js", meta: "file=app.js", value: "run();", position: { start: { line: 3, column: 1, offset: 10 }, end: { ... } } }
+ */
+
+import { diffMeta, parseInfoString, removeInfoKeys, updateInfoString } from "./info.ts";
+import { matchesFilter, parse } from "./parser.ts";
+import { createLocator } from "./scanner.ts";
+import type { Block, BlockChange, BlockField, FilterOptions, WalkerFunction } from "./types.ts";
+
+/**
+ * A point in a unist tree: 1-based line and column, and the offset when known
+ */
+export interface MdastPoint {
+  line: number;
+  column: number;
+  offset?: number;
+}
+
+/**
+ * Where a unist node is in the source
+ */
+export interface MdastPosition {
+  start: MdastPoint;
+  end: MdastPoint;
+}
+
+/**
+ * Any mdast node (only the parts mdcode uses)
+ */
+export interface MdastNode {
+  type: string;
+  children?: Array<MdastNode>;
+  position?: MdastPosition;
+}
+
+/**
+ * An mdast `code` node: a fenced or indented code block
+ */
+export interface MdastCode extends MdastNode {
+  type: "code";
+  /** First word of the info string */
+  lang?: string | null;
+  /** Rest of the info string */
+  meta?: string | null;
+  value: string;
+}
+
+/**
+ * Options for reading blocks from mdast nodes
+ */
+export type MdastOptions = {
+  /** The markdown the tree was parsed from; gives blocks their position, headings and slug, and nodes their exact end */
+  source?: string;
+  /** The source is MDX */
+  mdx?: boolean;
+};
+
+/**
+ * Options for walking the code nodes of an mdast tree
+ */
+export type MdastWalkOptions = MdastOptions & {
+  /** The tree to walk; code nodes are changed in place */
+  tree: MdastNode;
+  /** Function to call for each block */
+  walker: WalkerFunction;
+  /** Optional filter to apply before calling walker */
+  filter?: FilterOptions;
+};
+
+/**
+ * Result of walking an mdast tree
+ */
+export type MdastWalkResult = {
+  /** All blocks that were processed */
+  blocks: Array<Block>;
+  /** Whether any code node was changed */
+  modified: boolean;
+  /** The blocks the walker changed, in document order */
+  changes: Array<BlockChange>;
+};
+
+/**
+ * Convert a block to an mdast `code` node.
+ * The metadata is written as the `meta` string (as `key=value` pairs that
+ * `parseInfoString` reads back), and the node spans the block from its opening
+ * to its closing fence. Indented and unclosed blocks end after their last line
+ * of code when the `source` is given, and at the start of the next line otherwise.
+ */
+export function toMdast(block: Block, options: MdastOptions = {}): MdastCode {
+  // Code nodes have no fence: the serializer picks one that can hold the meta
+  const meta = updateInfoString("", block.meta, "~");
+  const node: MdastCode = { type: "code", lang: block.lang || null, meta: meta || null, value: block.code };
+
+  const start = block.position?.opening?.start || block.position?.code?.start;
+  let end = block.position?.closing?.end || block.position?.code?.end;
+  if (end && !block.position?.closing && options.source !== undefined) {
+    // Leave out the final line ending, as mdast does
+    const eol = options.source.substring(0, end.offset).match(/\r?\n$/)?.[0] || "";
+    end = createLocator(options.source)(end.offset - eol.length);
+  }
+  if (start && end) {
+    node.position = { start: { ...start }, end: { ...end } };
+  }
+
+  return node;
+}
+
+/**
+ * Parse the source of a tree and index its blocks by the line they start on
+ */
+function blocksByLine(options: MdastOptions): Map<number, Block> {
+  const blocks = options.source === undefined ? [] : parse({ source: options.source, indented: true, mdx: options.mdx });
+  return new Map(blocks.map(block => [ (block.position?.opening || block.position?.code)?.start.line || 0, block ]));
+}
+
+/**
+ * Build a block from a code node, taking the position, headings and slug from the block parsed at the same line
+ */
+function nodeBlock(node: MdastCode, located: Map<number, Block>): Block {
+  const { lang, meta } = parseInfoString([ node.lang, node.meta ].filter(Boolean).join(" "));
+  const block: Block = { lang, meta, code: node.value };
+  const parsed = node.position ? located.get(node.position.start.line) : undefined;
+
+  if (parsed) {
+    block.headings = parsed.headings;
+    block.slug = parsed.slug;
+    block.position = parsed.position;
+  }
+
+  return block;
+}
+
+/**
+ * Convert an mdast `code` node to a block.
+ * The language and metadata are read from `lang` and `meta` like an info string
+ * (see `parseInfoString`). With the `source` the tree was parsed from, the block
+ * also gets its position, headings and slug.
+ */
+export function fromMdast(node: MdastCode, options: MdastOptions = {}): Block {
+  return nodeBlock(node, blocksByLine(options));
+}
+
+/**
+ * Find the code nodes of a tree, in document order
+ */
+function codeNodes(node: MdastNode): Array<MdastCode> {
+  if (node.type === "code") {
+    return [ node as MdastCode ];
+  }
+  return (node.children || []).flatMap(codeNodes);
+}
+
+/**
+ * Walk through the code nodes of an mdast tree and optionally transform them.
+ * New code is written to the node's `value` (without a final line ending), and a
+ * new language and metadata to its `lang` and `meta`; a walker that returns null empties it.
+ */
+export async function walkMdast(options: MdastWalkOptions): Promise<MdastWalkResult> {
+  const { tree, walker, filter } = options;
+  const located = blocksByLine(options);
+  const blocks: Array<Block> = [];
+  const changes: Array<BlockChange> = [];
+
+  for (const node of codeNodes(tree)) {
+    const block = nodeBlock(node, located);
+    if (!matchesFilter(block, filter)) {
+      continue;
+    }
+    blocks.push(block);
+
+    const result = await walker(block);
+    const value = result === null ? "" : result.code.replace(/\r?\n$/, "");
+    const lang = result?.lang ?? block.lang;
+    const { updates, removed } = diffMeta(block.meta, result?.meta ?? block.meta, block.inherited);
+    const fields: Array<BlockField> = [];
+
+    if (value !== node.value) {
+      node.value = value;
+      fields.push("code");
+    }
+    if (lang !== block.lang) {
+      node.lang = lang || null;
+      fields.push("lang");
+    }
+    if (Object.keys(updates).length > 0 || removed.length > 0) {
+      // Code nodes have no fence: the serializer picks one that can hold the meta
+      node.meta = removeInfoKeys(updateInfoString(node.meta || "", updates, "~"), removed) || null;
+      fields.push("meta");
+    }
+
+    if (fields.length > 0) {
+      changes.push({ block, fields });
+    }
+  }
+
+  return { blocks, modified: changes.length > 0, changes };
+}
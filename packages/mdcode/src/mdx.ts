@@ -0,0 +1,127 @@
+/**
+ * MDX support for the scanner
+ * Tracks JSX tags, `{...}` expressions, template literals and comments across
+ * lines, so fences inside them are not mistaken for code blocks
+ */
+
+/**
+ * An open MDX construct:
+ * `{` expression, `${` template substitution, `` ` `` template literal, `<` JSX tag, `/*` comment
+ */
+type Context = "{" | "${" | "`" | "<" | "/*";
+
+/**
+ * Nesting state carried from one line to the next
+ */
+export interface MdxState {
+  stack: Array<Context>;
+}
+
+/**
+ * Whether a `<` at this position starts a JSX tag (`<Tabs`, `</Tabs`, `<>`)
+ */
+function isTagStart(text: string, index: number): boolean {
+  return text[index] === "<" && /^[A-Za-z/>]/.test(text[index + 1] || "");
+}
+
+/**
+ * Find the end of a quoted string that starts at `index` (strings do not span lines)
+ */
+function skipString(text: string, index: number): number {
+  const quote = text[index];
+  let i = index + 1;
+
+  while (i < text.length && text[i] !== quote) {
+    i += text[i] === "\\" ? 2 : 1;
+  }
+
+  return i + 1;
+}
+
+/**
+ * Advance the MDX state over one line of markdown.
+ * In markdown text, `{` opens an expression and `<Name` a JSX tag; code spans are literal.
+ * Inside expressions and tags, strings, comments and template literals are skipped.
+ */
+export function feedMdx(state: MdxState, text: string): void {
+  const { stack } = state;
+  let i = 0;
+
+  while (i < text.length) {
+    const top = stack.at(-1);
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (top === "/*") {
+      if (char === "*" && next === "/") {
+        stack.pop();
+        i += 2;
+        continue;
+      }
+      i++;
+    }
+    else if (top === "`") {
+      if (char === "\\") {
+        i += 2;
+        continue;
+      }
+      if (char === "`") {
+        stack.pop();
+      }
+      else if (char === "$" && next === "{") {
+        stack.push("${");
+        i++;
+      }
+      i++;
+    }
+    else if (top === undefined) {
+      if (char === "`") {
+        // Skip a code span (an unmatched backtick run is literal)
+        const run = text.substring(i).match(/^`+/)?.[0] || "`";
+        const end = text.indexOf(run, i + run.length);
+        i = end < 0 ? i + run.length : end + run.length;
+        continue;
+      }
+      if (char === "\\") {
+        i += 2;
+        continue;
+      }
+      if (char === "{") {
+        stack.push("{");
+      }
+      else if (isTagStart(text, i)) {
+        stack.push("<");
+      }
+      i++;
+    }
+    else {
+      if (char === "\"" || char === "'") {
+        i = skipString(text, i);
+        continue;
+      }
+      if (char === "/" && next === "*") {
+        stack.push("/*");
+        i += 2;
+        continue;
+      }
+      if (char === "/" && next === "/" && top !== "<") {
+        // Line comment: the rest of the line is ignored
+        return;
+      }
+
+      if (char === "`") {
+        stack.push("`");
+      }
+      else if (char === "{") {
+        stack.push("{");
+      }
+      else if (char === "}" && top !== "<") {
+        stack.pop();
+      }
+      else if (char === ">" && top === "<") {
+        stack.pop();
+      }
+      i++;
+    }
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Jupyter notebook support: the code cells of `.ipynb` files
+ * Example cell:
+ * {
+ *  "cell_type": "code",
+ *  "metadata": { "mdcode": { "file": "app.py" } },
+ *  "source": [ "# mdcode region=main\n", "print(\"Hello\")" ]
+ * }
+ */
+
+import { BOM, normalizeEol } from "./eol.ts";
+import type { LineEnding } from "./eol.ts";
+import { getCommentStyle } from "./region.ts";
+import { createLocator, slugify } from "./scanner.ts";
+import type { MetaComment, ScannedBlock } from "./scanner.ts";
+
+/**
+ * A JSON value with its offsets in the source
+ */
+interface JsonNode {
+  start: number;
+  end: number;
+  value: unknown;
+  /** Members of an object, in source order */
+  members?: Array<{ key: string; node: JsonNode; }>;
+  /** Items of an array */
+  items?: Array<JsonNode>;
+}
+
+/**
+ * A heading enclosing the current position
+ */
+interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+const WHITESPACE = /[ \t\r\n]*/y;
+const STRING = /"(?:[^"\\\n]|\\.)*"/y;
+const LITERAL = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+// A `# mdcode key=value` (or `// mdcode`) comment on the first line of a cell
+const META_COMMENT = /^(\s*(?:#|\/\/)\s*mdcode)((?:\s.*?)?)\s*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Read the JSON value at `offset`, keeping the offsets of every value
+ */
+function readJson(source: string, offset: number): { node: JsonNode; end: number; } {
+  let index = offset;
+
+  const fail = (): never => {
+    const { line, column } = createLocator(source)(index);
+    throw new Error(`Invalid notebook JSON at line ${line}, column ${column}`);
+  };
+
+  const skipWhitespace = () => {
+    WHITESPACE.lastIndex = index;
+    WHITESPACE.test(source);
+    index = WHITESPACE.lastIndex;
+  };
+
+  // Strings are checked (escapes, control characters) when they are parsed
+  const parse = (text: string): unknown => {
+    try {
+      return JSON.parse(text);
+    }
+    catch {
+      return fail();
+    }
+  };
+
+  const token = (pattern: RegExp): string | undefined => {
+    pattern.lastIndex = index;
+    const match = pattern.exec(source)?.[0];
+    if (match !== undefined) {
+      index += match.length;
+    }
+    return match;
+  };
+
+  const readValue = (): JsonNode => {
+    skipWhitespace();
+    const start = index;
+    const char = source[index];
+
+    if (char === "{" || char === "[") {
+      const object = char === "{";
+      const members: Array<{ key: string; node: JsonNode; }> = [];
+      const items: Array<JsonNode> = [];
+      index++;
+      skipWhitespace();
+
+      if (source[index] !== (object ? "}" : "]")) {
+        for (;;) {
+          if (object) {
+            skipWhitespace();
+            const key = parse(token(STRING) ?? fail()) as string;
+            skipWhitespace();
+            if (source[index++] !== ":") {
+              fail();
+            }
+            members.push({ key, node: readValue() });
+          }
+          else {
+            items.push(readValue());
+          }
+          skipWhitespace();
+          if (source[index] !== ",") {
+            break;
+          }
+          index++;
+        }
+      }
+      if (source[index++] !== (object ? "}" : "]")) {
+        index--;
+        fail();
+      }
+
+      return object
+        ? { start, end: index, value: Object.fromEntries(members.map(({ key, node }) => [ key, node.value ])), members }
+        : { start, end: index, value: items.map(item => item.value), items };
+    }
+
+    const text = token(STRING) ?? token(LITERAL) ?? fail();
+    return { start, end: index, value: parse(text) };
+  };
+
+  const node = readValue();
+  skipWhitespace();
+  return { node, end: index };
+}
+
+/**
+ * Find the member of a JSON object with the given key
+ */
+function member(node: JsonNode | undefined, key: string): JsonNode | undefined {
+  return node?.members?.find(entry => entry.key === key)?.node;
+}
+
+/**
+ * Get the lines (with their `\n`) of a cell's `source`, a string or an array of strings
+ */
+function cellLines(node: JsonNode): Array<string> {
+  const text = Array.isArray(node.value) ? node.value.join("") : String(node.value);
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Get the indentation of the line an offset is on
+ */
+function lineIndent(source: string, offset: number): string {
+  return source.substring(source.lastIndexOf("\n", offset - 1) + 1).match(/^[ \t]*/)?.[0] || "";
+}
+
+/**
+ * Get the indentation step of the notebook ("" for a notebook written on one line)
+ */
+function indentUnit(source: string): string {
+  return source.match(/\n([ \t]+)\S/)?.[1] || "";
+}
+
+/**
+ * Serialise a JSON value the way the notebook is written, as if it started on the line at `offset`
+ */
+function formatJson(value: unknown, source: string, offset: number, eol: LineEnding): string {
+  const unit = indentUnit(source);
+  if (!unit) {
+    return JSON.stringify(value);
+  }
+  return JSON.stringify(value, null, unit).replace(/\n/g, `${eol}${lineIndent(source, offset)}`);
+}
+
+/**
+ * Serialise the lines of a cell's `source` in the same form (string or array) as the original value
+ */
+function formatSource(lines: Array<string>, original: JsonNode, source: string, eol: LineEnding): string {
+  // The last line ends with a line ending only if it did before (usually it does not)
+  const end = cellLines(original).at(-1)?.endsWith("\n") ? "\n" : "";
+  const last = lines.length - 1;
+  const value = lines.map((line, index) => index === last ? line.replace(/\n$/, "") + end : line);
+
+  return Array.isArray(original.value) ? formatJson(value, source, original.start, eol) : JSON.stringify(value.join(""));
+}
+
+/**
+ * Read the source of the cell that holds a scanned block
+ */
+function readCellSource(scanned: ScannedBlock, source: string): JsonNode {
+  return readJson(source, scanned.codeStart).node;
+}
+
+/**
+ * Parse the metadata of a code cell: the string values of its `mdcode` object.
+ * The language comes from the notebook's kernel, so it is always empty here.
+ */
+export function parseCellMetadata(info: string): { lang: string; meta: Record<string, string>; } {
+  const meta: Record<string, string> = {};
+  const mdcode = info ? (JSON.parse(info) as Record<string, unknown>).mdcode : undefined;
+
+  if (mdcode && typeof mdcode === "object") {
+    for (const [ key, value ] of Object.entries(mdcode)) {
+      meta[key] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  }
+
+  return { lang: "", meta };
+}
+
+/**
+ * Find keys that appear more than once in the `mdcode` object of a cell's metadata
+ */
+export function duplicateCellKeys(info: string): Array<string> {
+  const keys = (info ? member(readJson(info, 0).node, "mdcode")?.members || [] : []).map(entry => entry.key);
+  return [ ...new Set(keys.filter((key, index) => keys.indexOf(key) !== index)) ];
+}
+
+/**
+ * Apply metadata updates to the `mdcode` object of a cell's metadata.
+ * The metadata is written back in the notebook's indentation; a cell without
+ * metadata gets a `metadata` member.
+ */
+export function updateCellMetadata(scanned: ScannedBlock, updates: Record<string, string>, source: string, eol: LineEnding): { start: number; end: number; text: string; } {
+  const metadata = (scanned.info ? JSON.parse(scanned.info) : {}) as Record<string, unknown>;
+  metadata.mdcode = { ...(metadata.mdcode as Record<string, unknown> | undefined), ...updates };
+
+  if (scanned.info) {
+    return { start: scanned.infoStart, end: scanned.infoEnd, text: formatJson(metadata, source, scanned.infoStart, eol) };
+  }
+
+  // Add the member before the cell's source, indented like it
+  const indent = indentUnit(source) ? `${eol}${lineIndent(source, scanned.codeStart)}` : "";
+  return { start: scanned.infoStart, end: scanned.infoEnd, text: `${indent}"metadata": ${formatJson(metadata, source, scanned.codeStart, eol)},` };
+}
+
+/**
+ * Remove keys from the `mdcode` object of a cell's metadata (an object left empty is removed)
+ */
+export function removeCellMetadata(scanned: ScannedBlock, keys: Array<string>, source: string, eol: LineEnding): { start: number; end: number; text: string; } {
+  const metadata = (scanned.info ? JSON.parse(scanned.info) : {}) as Record<string, unknown>;
+  const mdcode = metadata.mdcode as Record<string, unknown> | undefined;
+
+  if (!mdcode || typeof mdcode !== "object" || !keys.some(key => Object.hasOwn(mdcode, key))) {
+    return { start: scanned.infoStart, end: scanned.infoEnd, text: scanned.info };
+  }
+
+  const kept = Object.fromEntries(Object.entries(mdcode).filter(([ key ]) => !keys.includes(key)));
+  if (Object.keys(kept).length > 0) {
+    metadata.mdcode = kept;
+  }
+  else {
+    delete metadata.mdcode;
+  }
+
+  return { start: scanned.infoStart, end: scanned.infoEnd, text: formatJson(metadata, source, scanned.infoStart, eol) };
+}
+
+/**
+ * Write a cell's first-line `# mdcode` comment, adding one if the cell has none
+ * (empty metadata removes the comment). The whole `source` of the cell is rewritten.
+ */
+export function writeCellComment(scanned: ScannedBlock, meta: string, source: string, eol: LineEnding): { start: number; end: number; text: string; } {
+  const original = readCellSource(scanned, source);
+  const lines = cellLines(original);
+  const code = scanned.comment ? lines.slice(1) : lines;
+  const prefix = scanned.comment ? lines[0]?.match(META_COMMENT)?.[1] : undefined;
+  const comment = `${prefix || `${getCommentStyle(scanned.lang || "")[0]} mdcode`} ${meta}\n`;
+
+  return {
+    start: scanned.codeStart,
+    end: scanned.codeEnd,
+    text: formatSource(meta ? [ comment, ...code ] : code, original, source, eol),
+  };
+}
+
+/**
+ * Write new code into a cell's `source`, keeping its first-line `# mdcode` comment.
+ * Code lines end with `\n`, whatever the notebook's line endings.
+ */
+export function writeCellCode(code: string, scanned: ScannedBlock, eol: LineEnding, source: string): string {
+  const original = readCellSource(scanned, source);
+  const lines = normalizeEol(code, "\n").match(/[^\n]*\n|[^\n]+$/g) || [];
+  const comment = scanned.comment ? cellLines(original).slice(0, 1) : [];
+
+  return formatSource([ ...comment, ...lines ], original, source, eol);
+}
+
+/**
+ * Get the language of the notebook's kernel
+ */
+function kernelLanguage(notebook: JsonNode): string {
+  const metadata = member(notebook, "metadata");
+  const language = member(member(metadata, "kernelspec"), "language")?.value ?? member(member(metadata, "language_info"), "name")?.value;
+  return typeof language === "string" ? language : "";
+}
+
+/**
+ * Track the ATX headings of a markdown cell (skipping fenced code)
+ */
+function readHeadings(lines: Array<string>, headings: Array<Heading>, slugs: Map<string, number>): void {
+  let fence: string | undefined;
+
+  for (const line of lines) {
+    const text = line.replace(/\n$/, "");
+    const marker = text.match(FENCE)?.[1];
+    if (fence) {
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && text.trim() === marker) {
+        fence = undefined;
+      }
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      continue;
+    }
+
+    const heading = text.match(ATX_HEADING);
+    if (heading) {
+      const level = heading[1]?.length || 1;
+      while ((headings.at(-1)?.level ?? 0) >= level) {
+        headings.pop();
+      }
+      const title = heading[2] || "";
+      headings.push({ level, text: title, slug: slugify(title, slugs) });
+    }
+  }
+}
+
+/**
+ * Scan a Jupyter notebook for code cells.
+ *
+ * Each code cell is a block in the notebook's kernel language (`lang` on the
+ * scanned block). The block's `info` is the cell's `metadata` object, whose
+ * `mdcode` member holds the metadata, and the code offsets are those of the
+ * cell's `source` value. A `# mdcode key=value` comment on the first line of
+ * the cell is attached as `comment` and left out of the code.
+ *
+ * Markdown cells give the headings (ATX headings only).
+ */
+export function scanNotebook(source: string): Array<ScannedBlock> {
+  const start = source.startsWith(BOM) ? BOM.length : 0;
+  if (source.substring(start).trim() === "") {
+    return [];
+  }
+
+  const { node: notebook, end } = readJson(source, start);
+  if (end < source.length) {
+    const { line, column } = createLocator(source)(end);
+    throw new Error(`Invalid notebook JSON at line ${line}, column ${column}`);
+  }
+
+  const lang = kernelLanguage(notebook);
+  const blocks: Array<ScannedBlock> = [];
+  const headings: Array<Heading> = [];
+  const slugs = new Map<string, number>();
+
+  for (const cell of member(notebook, "cells")?.items || []) {
+    const type = member(cell, "cell_type")?.value;
+    const code = member(cell, "source");
+    if (!code) {
+      continue;
+    }
+
+    const lines = cellLines(code);
+    if (type === "markdown") {
+      readHeadings(lines, headings, slugs);
+      continue;
+    }
+    if (type !== "code") {
+      continue;
+    }
+
+    const metadata = member(cell, "metadata");
+    const directive = lines[0]?.match(META_COMMENT);
+    const comment: MetaComment | undefined = directive
+      ? { text: (directive[2] || "").trim(), start: code.start, end: code.end }
+      : undefined;
+
+    blocks.push({
+      kind: "fenced",
+      char: "",
+      length: 0,
+      prefix: "",
+      indent: "",
+      lang,
+      info: metadata ? source.substring(metadata.start, metadata.end) : "",
+      infoStart: metadata?.start ?? cell.start + 1,
+      infoEnd: metadata?.end ?? cell.start + 1,
+      openStart: cell.start,
+      blockStart: cell.start,
+      openEnd: code.start,
+      codeStart: code.start,
+      codeEnd: code.end,
+      lines: directive ? lines.slice(1) : lines,
+      closed: true,
+      strayFences: [],
+      comment,
+      headings: headings.map(heading => heading.text),
+      slug: headings.at(-1)?.slug || "",
+    });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,354 @@
+/**
+ * Org-mode support: `#+BEGIN_SRC` blocks with header arguments
+ * Example:
+ * #+BEGIN_SRC sh :tangle deploy.sh :var host="prod"
+ * ./deploy.sh "$host"
+ * #+END_SRC
+ */
+
+import { BOM } from "./eol.ts";
+import { frontMatterLength } from "./frontmatter.ts";
+import { slugify, splitLines } from "./scanner.ts";
+import type { MetaComment, ScannedBlock, SourceLine } from "./scanner.ts";
+
+/**
+ * A `:key value` header argument with the offsets of its value within the info string
+ */
+interface HeaderArgument {
+  key: string;
+  value: string;
+  /** Offset of the `:key` */
+  start: number;
+  /** Offsets of the value (empty right after the key when there is none) */
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * A heading enclosing the current position
+ */
+interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+/**
+ * A source block being read: its scanned block and the raw content lines
+ */
+interface OpenBlock {
+  block: ScannedBlock;
+  content: Array<SourceLine>;
+}
+
+const BEGIN_SRC = /^([ \t]*)#\+begin_src(?=\s|$)/i;
+const END_SRC = /^[ \t]*#\+end_src\s*$/i;
+// Other blocks whose content is not Org markup
+const BEGIN_VERBATIM = /^[ \t]*#\+begin_(example|export|comment)(?=\s|$)/i;
+const META_COMMENT = /^([ \t]*#\s+mdcode)((?:\s.*?)?)\s*$/;
+const HEADLINE = /^(\*+)[ \t]+(.*?)[ \t]*$/;
+const CUSTOM_ID = /^[ \t]*:CUSTOM_ID:[ \t]+(\S+)\s*$/i;
+// Code lines that would be read as Org markup get a comma in front
+const ESCAPED_LINE = /^([ \t]*),(?=,*(?:\*|#\+))/;
+const UNESCAPED_LINE = /^([ \t]*)(,*(?:\*|#\+))/gm;
+
+/**
+ * Split an info string into its header arguments.
+ * Everything up to the first `:key` is the language and switches (such as `-n`);
+ * a value runs up to the next `:key`, so it may hold several words.
+ */
+function headerArguments(info: string): Array<HeaderArgument> {
+  const args: Array<HeaderArgument> = [];
+  const pattern = /"(?:[^"\\]|\\.)*"|\S+/g;
+  let match;
+
+  while ((match = pattern.exec(info)) !== null) {
+    const token = match[0];
+    const end = match.index + token.length;
+    const current = args.at(-1);
+
+    if (/^:\S+$/.test(token)) {
+      args.push({ key: token.substring(1), value: "", start: match.index, valueStart: end, valueEnd: end });
+    }
+    else if (current) {
+      if (current.valueStart === current.valueEnd) {
+        current.valueStart = match.index;
+      }
+      current.valueEnd = end;
+    }
+  }
+
+  for (const arg of args) {
+    const value = info.substring(arg.valueStart, arg.valueEnd);
+    arg.value = /^"(?:[^"\\]|\\.)*"$/.test(value) ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+  }
+
+  return args;
+}
+
+/**
+ * The metadata key for a header argument: `:tangle` (with a path) is the block's `file`
+ */
+function metaKey(arg: HeaderArgument): string {
+  return arg.key === "tangle" && arg.value !== "yes" && arg.value !== "no" ? "file" : arg.key;
+}
+
+/**
+ * Parse the info string of a source block: `sh -n :tangle deploy.sh :var x=1`.
+ * The first word is the language (unless it is a header argument). Header arguments
+ * become metadata, with `:tangle` mapped to `file`; an argument without a value is "true".
+ */
+export function parseSrcInfo(info: string): { lang: string; meta: Record<string, string>; } {
+  const first = info.trim().split(/\s+/)[0] || "";
+  const meta: Record<string, string> = {};
+
+  for (const arg of headerArguments(info)) {
+    meta[metaKey(arg)] = arg.value || "true";
+  }
+
+  return { lang: first.startsWith(":") ? "" : first, meta };
+}
+
+/**
+ * Quote a header argument value if it cannot be written bare
+ */
+function formatValue(value: string): string {
+  if (/^[^\s":]\S*$/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Apply metadata updates to the info string of a source block.
+ * Existing header arguments are rewritten in place and new ones appended;
+ * `file` is written as `:tangle`.
+ */
+export function updateSrcInfo(info: string, updates: Record<string, string>): string {
+  const pending = new Map(Object.entries(updates));
+  let result = info;
+
+  for (const arg of headerArguments(info).reverse()) {
+    const value = pending.get(metaKey(arg));
+    if (value === undefined) {
+      continue;
+    }
+    pending.delete(metaKey(arg));
+    if (value === "true" && arg.value === "") {
+      continue;
+    }
+    const text = arg.valueStart === arg.valueEnd ? ` ${formatValue(value)}` : formatValue(value);
+    result = result.substring(0, arg.valueStart) + text + result.substring(arg.valueEnd);
+  }
+
+  const appended = [ ...pending ].map(([ key, value ]) => `:${key === "file" ? "tangle" : key} ${formatValue(value)}`);
+  return [ result.trimEnd(), ...appended ].filter(Boolean).join(" ");
+}
+
+/**
+ * Set the language of a source block: the first word of its info string
+ */
+export function updateSrcLang(info: string, lang: string): string {
+  const first = info.match(/^\S*/)?.[0] || "";
+  if (first && !first.startsWith(":")) {
+    return lang ? lang + info.substring(first.length) : info.substring(first.length).trimStart();
+  }
+  return [ lang, info ].filter(Boolean).join(" ");
+}
+
+/**
+ * Remove header arguments from the info string of a source block (`file` removes `:tangle`)
+ */
+export function removeSrcKeys(info: string, keys: Array<string>): string {
+  let result = info;
+
+  for (const arg of headerArguments(info).reverse()) {
+    if (keys.includes(metaKey(arg))) {
+      result = result.substring(0, arg.start).trimEnd() + result.substring(arg.valueEnd);
+    }
+  }
+
+  return result.trim();
+}
+
+/**
+ * Find metadata keys that appear more than once in the info string of a source block
+ */
+export function duplicateHeaderKeys(info: string): Array<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const arg of headerArguments(info)) {
+    const key = metaKey(arg);
+    if (seen.has(key)) {
+      duplicates.add(key);
+    }
+    seen.add(key);
+  }
+
+  return [ ...duplicates ];
+}
+
+/**
+ * Put a comma in front of code lines that Org would read as headlines or keywords
+ */
+export function escapeSrcCode(code: string): string {
+  return code.replace(UNESCAPED_LINE, "$1,$2");
+}
+
+/**
+ * Get the text of a headline without its TODO keyword, priority, statistics cookies and tags
+ */
+function headlineText(raw: string): string {
+  return raw
+    .replace(/^(?:TODO|DONE)(?:\s+|$)/, "")
+    .replace(/^\[#[A-Za-z0-9]\]\s*/, "")
+    .replace(/\s+:[\w@#%:]+:$/, "")
+    .replace(/\s*\[\d*(?:%|\/\d*)\]/g, "")
+    .trim();
+}
+
+/**
+ * Finish a source block: strip the common indentation of its content
+ */
+function closeBlock(open: OpenBlock): ScannedBlock {
+  const { block, content } = open;
+  const widths = content.filter(line => line.text.trim() !== "").map(line => line.text.length - line.text.trimStart().length);
+  const width = widths.length > 0 ? Math.min(...widths) : 0;
+
+  block.indent = " ".repeat(width);
+  block.lines = content.map(line => line.text.substring(Math.min(width, line.text.length)).replace(ESCAPED_LINE, "$1") + line.eol);
+
+  return block;
+}
+
+/**
+ * Scan Org source for `#+BEGIN_SRC` ... `#+END_SRC` blocks (in any letter case).
+ *
+ * The text after `#+BEGIN_SRC` is the block's `info`. The common indentation of the
+ * content is kept in `indent` so rewrites keep it, and the commas Org puts in front
+ * of lines such as `,* text` or `,#+END_SRC` are removed from the code. A
+ * `# mdcode key=value` comment on the line before is attached as `comment`.
+ *
+ * Example, export and comment blocks are skipped. Headlines give the headings; a
+ * `:CUSTOM_ID:` property sets the slug.
+ */
+export function scanOrg(source: string): Array<ScannedBlock> {
+  const blocks: Array<ScannedBlock> = [];
+  let current: OpenBlock | undefined;
+  // End line of a skipped block
+  let skipping: RegExp | undefined;
+  let comment: MetaComment | undefined;
+  const headings: Array<Heading> = [];
+  const slugs = new Map<string, number>();
+  const contentStart = frontMatterLength(source);
+
+  const lines = splitLines(source);
+
+  // A byte order mark is not part of the first line's content
+  if (lines[0]?.text.startsWith(BOM)) {
+    lines[0] = { ...lines[0], text: lines[0].text.substring(BOM.length), start: BOM.length };
+  }
+
+  for (const line of lines) {
+    if (line.start < contentStart) {
+      continue;
+    }
+
+    if (current) {
+      if (END_SRC.test(line.text)) {
+        current.block.codeEnd = line.start;
+        current.block.closed = true;
+        current.block.closeStart = line.start + line.text.length - line.text.trimStart().length;
+        current.block.closeEnd = line.start + line.text.trimEnd().length;
+        blocks.push(closeBlock(current));
+        current = undefined;
+      }
+      else {
+        current.content.push(line);
+        current.block.codeEnd = line.end;
+      }
+      continue;
+    }
+
+    if (skipping) {
+      if (skipping.test(line.text)) {
+        skipping = undefined;
+      }
+      continue;
+    }
+
+    const directive = line.text.match(META_COMMENT);
+    if (directive) {
+      const start = line.start + (directive[1] || "").length;
+      const text = directive[2] || "";
+      comment = { text: text.trim(), start, end: start + text.length };
+      continue;
+    }
+
+    const begin = line.text.match(BEGIN_SRC);
+    if (begin) {
+      const rest = line.text.substring(begin[0].length);
+      const infoStart = line.start + begin[0].length + (rest.length - rest.trimStart().length);
+      const info = rest.trim();
+
+      current = {
+        content: [],
+        block: {
+          kind: "fenced",
+          char: "",
+          length: 0,
+          prefix: "",
+          indent: "",
+          info,
+          infoStart,
+          infoEnd: infoStart + info.length,
+          openStart: line.start,
+          blockStart: line.start + (begin[1] || "").length,
+          openEnd: line.start + line.text.length,
+          codeStart: line.end,
+          codeEnd: line.end,
+          lines: [],
+          closed: false,
+          strayFences: [],
+          comment,
+          headings: headings.map(heading => heading.text),
+          slug: headings.at(-1)?.slug || "",
+        },
+      };
+      comment = undefined;
+      continue;
+    }
+    comment = undefined;
+
+    const verbatim = line.text.match(BEGIN_VERBATIM);
+    if (verbatim) {
+      skipping = new RegExp(`^[ \\t]*#\\+end_${verbatim[1]}\\s*$`, "i");
+      continue;
+    }
+
+    const headline = line.text.match(HEADLINE);
+    if (headline) {
+      const level = headline[1]?.length || 1;
+      while ((headings.at(-1)?.level ?? 0) >= level) {
+        headings.pop();
+      }
+      const text = headlineText(headline[2] || "");
+      headings.push({ level, text, slug: slugify(text, slugs) });
+      continue;
+    }
+
+    const customId = line.text.match(CUSTOM_ID)?.[1];
+    const heading = headings.at(-1);
+    if (customId && heading) {
+      heading.slug = customId;
+    }
+  }
+
+  // An unclosed block runs to the end of the document
+  if (current) {
+    blocks.push(closeBlock(current));
+  }
+
+  return blocks;
+}
@@ -5,7 +5,9 @@ import { join } from "node:path";
 import { describe, it } from "node:test";
 import * as assert from "node:assert/strict";
 
-import { parse, walk } from "./parser.ts";
+import { formatDiagnostic, formatLocation, markdownAdapter, parse, parseDocument, registerAdapter, syntaxForPath, updateInfoStrings, walk, withoutHeader } from "./parser.ts";
+import { parseSrcInfo } from "./org.ts";
+import type { Block, DocumentAdapter, DocumentFormat } from "./types.ts";
 
 // Helper to load test fixtures
 async function loadFixture(filename: string): Promise<string> {
@@ -51,14 +53,1170 @@ describe("parseInfoString (via parse)", () => {
     });
   });
 
-  it("should skip metadata without equals sign", () => {
+  it("should store metadata without equals sign as a flag", () => {
     const source = "```js file=foo.js standalone\ncode\n```";
     const blocks = parse({ source });
     assert.equal(blocks.length,1);
     assert.deepEqual(blocks[0]?.meta,{
       file: "foo.js",
+      standalone: "true",
     });
   });
+
+  it("should parse quoted values with escapes", () => {
+    const source = "```js title=\"Hello world\" note='it''s' quote=\"say \\\"hi\\\"\" path=C:\\src\\app.js\ncode\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.deepEqual(blocks[0]?.meta,{
+      title: "Hello world",
+      note: "its",
+      quote: "say \"hi\"",
+      path: "C:\\src\\app.js",
+    });
+  });
+
+  it("should parse Pandoc attribute syntax", () => {
+    const source = "```{.python #setup file=setup.py}\ncode\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.equal(blocks[0]?.lang,"python");
+    assert.deepEqual(blocks[0]?.meta,{ name: "setup", file: "setup.py" });
+  });
+
+  it("should parse attributes after a language and keep extra classes", () => {
+    const source = "```haskell {.numberLines startFrom=\"100\"}\ncode\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks[0]?.lang,"haskell");
+    assert.deepEqual(blocks[0]?.meta,{ class: "numberLines", startFrom: "100" });
+  });
+
+  it("should not treat line highlight ranges as attributes", () => {
+    const source = "```{r}\ncode\n```\n\n```js {1,3}\ncode\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks[0]?.lang,"{r}");
+    assert.equal(blocks[1]?.lang,"js");
+  });
+
+  it("should treat a leading key=value pair as metadata", () => {
+    const source = "```file=foo.txt\ncode\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks[0]?.lang,"");
+    assert.deepEqual(blocks[0]?.meta,{ file: "foo.txt" });
+  });
+});
+
+describe("updateInfoStrings", () => {
+  it("should keep the rest of the info string verbatim", () => {
+    const source = "```js   title='Hello world'  hidden file=old.js\ncode\n```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "new.js", region: "main" } ] ]));
+    assert.equal(result,"```js   title='Hello world'  hidden file=new.js region=main\ncode\n```\n");
+  });
+
+  it("should quote values that need it", () => {
+    const source = "```js\ncode\n```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { title: "Hello \"world\"", empty: "" } ] ]));
+    assert.equal(result,"```js title=\"Hello \\\"world\\\"\" empty=\ncode\n```\n");
+    assert.deepEqual(parse({ source: result })[0]?.meta,{ title: "Hello \"world\"", empty: "" });
+  });
+
+  it("should write backticks to a metadata comment, since they would turn a backtick fence into text", () => {
+    const source = "```js\ncode\n```\n";
+    const updates = new Map([ [ 0, { title: "Run `npm test`", file: "a.js" } ] ]);
+    const result = updateInfoStrings(source, updates);
+    assert.equal(result,"<!-- mdcode title=\"Run `npm test`\" -->\n```js file=a.js\ncode\n```\n");
+    assert.deepEqual(parse({ source: result })[0]?.meta,{ title: "Run `npm test`", file: "a.js" });
+
+    // A key already in the info string moves to the comment
+    const moved = updateInfoStrings("```js title=Old file=a.js\ncode\n```\n", updates);
+    assert.equal(moved,"<!-- mdcode title=\"Run `npm test`\" -->\n```js file=a.js\ncode\n```\n");
+  });
+
+  it("should write backticks to the info string of a tilde fence", () => {
+    const source = "~~~js\ncode\n~~~\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { title: "`x`" } ] ]));
+    assert.equal(result,"~~~js title=`x`\ncode\n~~~\n");
+    assert.deepEqual(parse({ source: result })[0]?.meta,{ title: "`x`" });
+  });
+
+  it("should keep flags as flags", () => {
+    const source = "```js hidden\ncode\n```\n";
+    assert.equal(updateInfoStrings(source, new Map([ [ 0, { hidden: "true" } ] ])),source);
+    assert.equal(updateInfoStrings(source, new Map([ [ 0, { hidden: "false" } ] ])),"```js hidden=false\ncode\n```\n");
+  });
+
+  it("should write attribute syntax back", () => {
+    const source = "```{.python #setup file=old.py}\ncode\n```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "setup.py", name: "init", title: "Set up" } ] ]));
+    assert.equal(result,"```{.python #init file=setup.py title=\"Set up\"}\ncode\n```\n");
+    assert.deepEqual(parse({ source: result })[0]?.meta,{ name: "init", file: "setup.py", title: "Set up" });
+  });
+
+  it("should round-trip metadata added to blocks without a language", () => {
+    const source = "```\ncode\n```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "block-1.txt" } ] ]));
+    const blocks = parse({ source: result });
+    assert.equal(blocks[0]?.lang,"");
+    assert.deepEqual(blocks[0]?.meta,{ file: "block-1.txt" });
+  });
+});
+
+describe("CommonMark fenced code blocks", async () => {
+  type SpecExample = { example: number; markdown: string; blocks: Array<{ lang: string; code: string; }>; };
+  const examples: Array<SpecExample> = JSON.parse(await loadFixture("commonmark/fenced-code.json"));
+
+  for (const { example, markdown, blocks: expected } of examples) {
+    it(`should match spec example ${example}`, () => {
+      const blocks = parse({ source: markdown });
+      assert.deepEqual(blocks.map(({ lang, code }) => ({ lang, code })), expected);
+    });
+  }
+});
+
+describe("fences", () => {
+  it("should parse tilde fences", () => {
+    const source = "~~~js file=a.js\ncode\n~~~";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.equal(blocks[0]?.lang,"js");
+    assert.equal(blocks[0]?.meta.file,"a.js");
+    assert.equal(blocks[0]?.code,"code");
+  });
+
+  it("should keep nested fences inside a longer fence", () => {
+    const source = "`````md\n```js\ninner\n```\n`````\n\n```js\nouter\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,2);
+    assert.equal(blocks[0]?.lang,"md");
+    assert.equal(blocks[0]?.code,"```js\ninner\n```");
+    assert.equal(blocks[1]?.code,"outer");
+  });
+
+  it("should not close a backtick fence with tildes", () => {
+    const source = "```\n~~~\n```";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.equal(blocks[0]?.code,"~~~");
+  });
+
+  it("should update info strings of tilde and long fences", () => {
+    const source = "~~~js\na\n~~~\n\n`````\nb\n`````\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "a.js" } ], [ 1, { file: "b.txt" } ] ]));
+    assert.equal(result,"~~~js file=a.js\na\n~~~\n\n`````file=b.txt\nb\n`````\n");
+  });
+
+  it("should re-indent replacement code for indented fences", async () => {
+    const source = "1. Step\n   ```js\n   old\n   ```\n";
+    const blocks = parse({ source });
+    assert.equal(blocks[0]?.code,"old");
+
+    const result = await walk({ source, walker: block => ({ ...block, code: "new\n\nline" }) });
+    assert.equal(result.source,"1. Step\n   ```js\n   new\n\n   line\n   ```\n");
+  });
+});
+
+describe("containers", () => {
+  it("should strip blockquote markers from code", () => {
+    const source = "> Note:\n>\n> ```js file=a.js\n> const a = 1;\n>\n> const b = 2;\n> ```\n";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.equal(blocks[0]?.meta.file,"a.js");
+    assert.equal(blocks[0]?.code,"const a = 1;\n\nconst b = 2;");
+  });
+
+  it("should strip list item indentation from code", () => {
+    const source = "1. Create the file:\n\n    ```js\n      indented();\n    ```\n2. Run it\n";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.equal(blocks[0]?.code,"  indented();");
+  });
+
+  it("should handle fences in nested lists and quoted lists", () => {
+    const source = "- a\n  - b\n    ```sh\n    nested\n    ```\n\n> 1. ```py\n>    quoted\n>    ```\n";
+    const blocks = parse({ source });
+    assert.deepEqual(blocks.map(b => b.code), [ "nested", "quoted" ]);
+  });
+
+  it("should expand tabs to 4-column tab stops in containers", () => {
+    const source = "- item\n\n\t```js\n\tcode\n\t\tnested\n\t```\n\n-\t```sh\n\tlisted\n\t```\n\n>\t```py\n>\tquoted\n>\t```\n";
+    const blocks = parse({ source });
+    assert.deepEqual(blocks.map(b => b.code), [ "code\n\tnested", "listed", "quoted" ]);
+    assert.equal(blocks[0]?.position?.opening?.start.offset,source.indexOf("```js"));
+    assert.equal(blocks[0]?.position?.info?.start.offset,source.indexOf("js"));
+    assert.equal(blocks[0]?.position?.closing?.start.offset,source.indexOf("```\n"));
+  });
+
+  it("should keep a tab-indented fence in a list item when rewriting", async () => {
+    const source = "- item\n\n\t```js\n\told\n\t```\n";
+    const result = await walk({ source, walker: block => ({ ...block, code: "new" }) });
+    assert.equal(result.source,"- item\n\n\t```js\n    new\n\t```\n");
+    assert.equal(updateInfoStrings(source, new Map([ [ 0, { file: "a.js" } ] ])),"- item\n\n\t```js file=a.js\n\told\n\t```\n");
+  });
+
+  it("should end a fence when its container ends", () => {
+    const source = "> ```\n> inside\noutside\n```\nlater\n```\n";
+    const blocks = parse({ source });
+    assert.deepEqual(blocks.map(b => b.code), [ "inside", "later" ]);
+  });
+
+  it("should add the container prefix back when rewriting", async () => {
+    const source = "> 1. Step\n>\n>    ```js\n>    old\n>    ```\n";
+    const result = await walk({ source, walker: block => ({ ...block, code: "one\n\ntwo" }) });
+    assert.equal(result.source,"> 1. Step\n>\n>    ```js\n>    one\n>\n>    two\n>    ```\n");
+
+    const roundTrip = await walk({ source: result.source, walker: block => ({ ...block, code: "old" }) });
+    assert.equal(roundTrip.source,source);
+  });
+
+  it("should update info strings inside containers", () => {
+    const source = "> ```js\n> code\n> ```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "a.js" } ] ]));
+    assert.equal(result,"> ```js file=a.js\n> code\n> ```\n");
+  });
+});
+
+describe("metadata comments", () => {
+  it("should merge metadata from a comment on the line before the fence", () => {
+    const source = "<!-- mdcode file=src/app.ts region=init -->\n```ts title=App\ncode\n```\n";
+    const blocks = parse({ source });
+    assert.equal(blocks.length,1);
+    assert.equal(blocks[0]?.lang,"ts");
+    assert.deepEqual(blocks[0]?.meta,{ file: "src/app.ts", region: "init", title: "App" });
+  });
+
+  it("should prefer the info string on conflicts", () => {
+    const source = "<!-- mdcode file=a.js -->\n```js file=b.js\ncode\n```\n";
+    assert.equal(parse({ source })[0]?.meta.file,"b.js");
+  });
+
+  it("should ignore comments that are not right before the fence", () => {
+    const source = "<!-- mdcode file=a.js -->\n\n```js\ncode\n```\n\n<!-- other file=b.js -->\n```js\ncode\n```\n";
+    assert.deepEqual(parse({ source }).map(b => b.meta),[ {}, {} ]);
+  });
+
+  it("should update keys where they already are", () => {
+    const source = "<!-- mdcode file=a.js -->\n```js region=main\ncode\n```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "b.js", region: "other", name: "x" } ] ]));
+    assert.equal(result,"<!-- mdcode file=b.js -->\n```js region=other name=x\ncode\n```\n");
+  });
+
+  it("should write new keys to the comment with the comment style", () => {
+    const source = "<!-- mdcode region=main -->\n```js\ncode\n```\n\n1. Step\n   ```js\n   code\n   ```\n";
+    const result = updateInfoStrings(source, new Map([ [ 0, { file: "a.js" } ], [ 1, { file: "b.js" } ] ]), { metaStyle: "comment" });
+    assert.equal(result,"<!-- mdcode region=main file=a.js -->\n```js\ncode\n```\n\n1. Step\n   <!-- mdcode file=b.js -->\n   ```js\n   code\n   ```\n");
+    assert.deepEqual(parse({ source: result }).map(b => b.meta.file),[ "a.js", "b.js" ]);
+  });
+});
+
+describe("header comments", () => {
+  const source = "```ts\n// file: src/index.ts\nexport {};\n```\n\n```python title=Setup\n# title: App\nprint(1)\n```\n\n```html\n<!-- file: index.html -->\n<p></p>\n```\n";
+
+  it("should ignore header comments by default", () => {
+    assert.deepEqual(parse({ source }).map(b => b.meta),[ {}, { title: "Setup" }, {} ]);
+  });
+
+  it("should lift a first-line comment into meta with headerMeta", () => {
+    const blocks = parse({ source, headerMeta: true });
+    assert.deepEqual(blocks.map(b => b.meta),[ { file: "src/index.ts" }, { title: "Setup" }, { file: "index.html" } ]);
+    assert.equal(blocks[0]?.header,"// file: src/index.ts");
+    assert.equal(blocks[0]?.code,"// file: src/index.ts\nexport {};");
+  });
+
+  it("should only use the comment style of the block's language", () => {
+    const blocks = parse({ source: "```js\n# file: a.js\ncode\n```\n", headerMeta: true });
+    assert.deepEqual(blocks[0]?.meta,{});
+    assert.equal(blocks[0]?.header,undefined);
+  });
+
+  it("should only read metadata keys from header comments", () => {
+    const blocks = parse({ source: "```js\n// Note: this only runs in Node\ncode\n```\n\n```sh\n# TODO: remove\nls\n```\n", headerMeta: true });
+    assert.deepEqual(blocks.map(b => b.meta),[ {}, {} ]);
+    assert.deepEqual(blocks.map(withoutHeader),[ "// Note: this only runs in Node\ncode", "# TODO: remove\nls" ]);
+  });
+
+  it("should strip the header from the code", () => {
+    const blocks = parse({ source, headerMeta: true });
+    assert.deepEqual(blocks.map(withoutHeader),[ "export {};", "print(1)", "<p></p>" ]);
+  });
+});
+
+describe("positions", () => {
+  it("should report line/column ranges of the fences, info string and code", () => {
+    const source = "Intro\r\n\r\n> ~~~~ js  file=a.js\r\n> code\r\n> ~~~~\r\n";
+    const position = parse({ source })[0]?.position;
+    assert.deepEqual(position?.opening,{ start: { line: 3, column: 3, offset: 11 }, end: { line: 3, column: 21, offset: 29 } });
+    assert.deepEqual(position?.info,{ start: { line: 3, column: 8, offset: 16 }, end: { line: 3, column: 21, offset: 29 } });
+    assert.deepEqual(position?.code,{ start: { line: 4, column: 1, offset: 31 }, end: { line: 5, column: 1, offset: 39 } });
+    assert.deepEqual(position?.closing,{ start: { line: 5, column: 3, offset: 41 }, end: { line: 5, column: 7, offset: 45 } });
+  });
+
+  it("should omit the closing fence of unclosed and indented blocks", () => {
+    const [ unclosed ] = parse({ source: "```js\ncode\n" });
+    assert.equal(unclosed?.position?.closing,undefined);
+    assert.deepEqual(unclosed?.position?.code?.end,{ line: 3, column: 1, offset: 11 });
+
+    const [ indented ] = parse({ source: "Intro\n\n    code\n", indented: true });
+    assert.equal(indented?.position?.opening,undefined);
+    assert.deepEqual(indented?.position?.code?.start,{ line: 3, column: 1, offset: 7 });
+  });
+
+  it("should format the location of a block", () => {
+    const [ block ] = parse({ source: "# Title\n\n  ```js\ncode\n```\n" });
+    assert.equal(block && formatLocation(block, "README.md"),"README.md:3:1");
+    assert.equal(block && formatLocation(block),"line 3");
+  });
+});
+
+describe("line endings", () => {
+  it("should write replacement code with the document's CRLF line endings", async () => {
+    const source = "# Title\r\n\r\n> ```js\r\n> old\r\n> ```\r\n";
+    const result = await walk({ source, walker: block => ({ ...block, code: "new\n\nlines" }) });
+    assert.equal(result.source,"# Title\r\n\r\n> ```js\r\n> new\r\n>\r\n> lines\r\n> ```\r\n");
+  });
+
+  it("should leave the source untouched when only line endings differ", async () => {
+    const source = "```js\r\none\r\ntwo\r\n```\r\n";
+    const result = await walk({ source, walker: block => ({ ...block, code: "one\ntwo\n" }) });
+    assert.equal(result.modified,false);
+    assert.equal(result.source,source);
+  });
+
+  it("should keep a byte order mark and find a fence on the first line", async () => {
+    const source = "\uFEFF```js\ncode\n```\n";
+    assert.equal(parse({ source })[0]?.code,"code");
+    assert.equal((await walk({ source, walker: block => ({ ...block, code: "new" }) })).source,"\uFEFF```js\nnew\n```\n");
+  });
+
+  it("should insert metadata comments and fenced blocks with CRLF", () => {
+    const source = "```js\r\ncode\r\n```\r\n\r\nText\r\n\r\n    indented\r\n";
+    const updates = new Map([ [ 0, { file: "a.js" } ], [ 1, { file: "b.txt" } ] ]);
+    assert.equal(updateInfoStrings(source, new Map([ [ 0, { file: "a.js" } ] ]), { metaStyle: "comment" }),"<!-- mdcode file=a.js -->\r\n```js\r\ncode\r\n```\r\n\r\nText\r\n\r\n    indented\r\n");
+    assert.equal(updateInfoStrings(source, updates, { indented: true }),"```js file=a.js\r\ncode\r\n```\r\n\r\nText\r\n\r\n```file=b.txt\r\nindented\r\n```\r\n");
+  });
+});
+
+describe("diagnostics", () => {
+  it("should report an unclosed fence and a fence with trailing text inside it", () => {
+    const source = "```js\none\n\n```js\ntwo\n```\n\nText\n\n```js\nunclosed\n";
+    const { blocks, diagnostics } = parseDocument({ source });
+    assert.equal(blocks.length,2);
+    assert.deepEqual(diagnostics.map(d => [ d.code, d.position.start.line ]),[
+      [ "fence-trailing-text", 4 ],
+      [ "unclosed-fence", 10 ],
+    ]);
+  });
+
+  it("should report duplicate keys and empty file metadata", () => {
+    const source = "<!-- mdcode region=a -->\n```js file= region=b region=c\ncode\n```\n\n```{.py #a name=b}\ncode\n```\n";
+    const { diagnostics } = parseDocument({ source });
+    assert.deepEqual(diagnostics.map(d => d.code),[ "duplicate-meta", "empty-file", "duplicate-meta" ]);
+    assert.equal(diagnostics[0]?.message,"Duplicate metadata key \"region\"");
+    assert.equal(diagnostics[0] && formatDiagnostic(diagnostics[0], "doc.md"),"doc.md:2:4: Duplicate metadata key \"region\"");
+  });
+
+  it("should report problems in document order", () => {
+    const source = "```js\none\n```js\ntwo\n```\n\n```js a=1 a=2\ncode\n```js\n```\n";
+    const { diagnostics } = parseDocument({ source });
+    assert.deepEqual(diagnostics.map(d => [ d.code, d.position.start.line ]),[
+      [ "fence-trailing-text", 3 ],
+      [ "duplicate-meta", 7 ],
+      [ "fence-trailing-text", 9 ],
+    ]);
+  });
+
+  it("should report problems regardless of the filter, and from walk", async () => {
+    const source = "```py\nok\n```\n\n```js file=\ncode\n```\n";
+    assert.equal(parseDocument({ source, filter: { lang: "py" } }).diagnostics.length,1);
+    assert.equal((await walk({ source, walker: block => block })).diagnostics[0]?.code,"empty-file");
+  });
+
+  it("should not report well-formed documents", () => {
+    const source = "````md\n```js\nnested\n```\n````\n\n```js file=a.js\ncode\n```\n";
+    assert.deepEqual(parseDocument({ source }).diagnostics,[]);
+  });
+});
+
+describe("sections", () => {
+  it("should attach the enclosing headings and slug", () => {
+    const source = [
+      "```js",
+      "intro",
+      "```",
+      "# Usage",
+      "## Install ##",
+      "```sh",
+      "npm i",
+      "```",
+      "### `Advanced` [setup](#setup)",
+      "```js",
+      "advanced",
+      "```",
+      "## Config",
+      "```json",
+      "{}",
+      "```",
+      "",
+    ].join("\n");
+
+    const blocks = parse({ source });
+    assert.deepEqual(blocks.map(b => b.headings),[ [], [ "Usage", "Install" ], [ "Usage", "Install", "Advanced setup" ], [ "Usage", "Config" ] ]);
+    assert.deepEqual(blocks.map(b => b.slug),[ "", "install", "advanced-setup", "config" ]);
+  });
+
+  it("should recognise setext headings and number repeated slugs", () => {
+    const source = "Usage\n=====\n\nExample\n-------\n```js\na\n```\n\nExample\n-------\n```js\nb\n```\n";
+    const blocks = parse({ source });
+    assert.deepEqual(blocks.map(b => b.headings),[ [ "Usage", "Example" ], [ "Usage", "Example" ] ]);
+    assert.deepEqual(blocks.map(b => b.slug),[ "example", "example-1" ]);
+  });
+
+  it("should not treat front matter, code or thematic breaks as headings", () => {
+    const source = "---\ntitle: Guide\n---\n```sh\n# not a heading\n```\n\ntext\n\n---\n```js\ncode\n```\n";
+    assert.deepEqual(parse({ source }).map(b => b.headings),[ [], [] ]);
+  });
+});
+
+describe("front matter defaults", () => {
+  const source = [
+    "---",
+    "title: Guide",
+    "mdcode:",
+    "  base: src/",
+    "  meta: { region: main }",
+    "  langs:",
+    "    sh: { file: setup.sh, region: install }",
+    "---",
+    "",
+    "```js file=app.js",
+    "code",
+    "```",
+    "",
+    "```sh region=other",
+    "npm i",
+    "```",
+    "",
+  ].join("\n");
+
+  it("should apply default, per-lang and block meta in that order", () => {
+    const blocks = parse({ source });
+    assert.deepEqual(blocks.map(b => b.meta),[
+      { region: "main", file: "src/app.js" },
+      { region: "other", file: "src/setup.sh" },
+    ]);
+    assert.deepEqual(blocks.map(b => b.inherited),[ [ "region" ], [ "file" ] ]);
+  });
+
+  it("should apply defaults before filtering", () => {
+    assert.equal(parse({ source, filter: { file: "src/setup.sh" } }).length,1);
+    assert.equal(parse({ source, filter: { meta: { region: "main" } } })[0]?.lang,"js");
+  });
+
+  it("should ignore front matter without an mdcode key or that is not at the start", () => {
+    const blocks = parse({ source: "---\ntitle: Guide\n---\n```js file=a.js\ncode\n```\n" });
+    assert.deepEqual(blocks[0]?.meta,{ file: "a.js" });
+    assert.equal(blocks[0]?.inherited,undefined);
+    assert.deepEqual(parse({ source: "\n" + source })[0]?.meta,{ file: "app.js" });
+  });
+
+  it("should apply defaults when walking", async () => {
+    const result = await walk({ source, walker: block => block });
+    assert.deepEqual(result.blocks.map(b => b.meta.file),[ "src/app.js", "src/setup.sh" ]);
+  });
+});
+
+describe("indented code blocks", () => {
+  const source = "Intro\n    not code\n\n    first();\n\n      second();\n\n\n> quote\n>\n>     quoted();\n";
+
+  it("should ignore indented code blocks by default", () => {
+    assert.equal(parse({ source }).length,0);
+  });
+
+  it("should expose indented code blocks when enabled", () => {
+    const blocks = parse({ source, indented: true });
+    assert.equal(blocks.length,2);
+    assert.equal(blocks[0]?.lang,"");
+    assert.deepEqual(blocks[0]?.meta,{});
+    assert.equal(blocks[0]?.code,"first();\n\n  second();");
+    assert.equal(blocks[1]?.code,"quoted();");
+  });
+
+  it("should re-indent replacement code", async () => {
+    const result = await walk({
+      source,
+      indented: true,
+      walker: block => ({ ...block, code: block.code.toUpperCase() + "\n\nmore();" }),
+    });
+    assert.equal(result.source,"Intro\n    not code\n\n    FIRST();\n\n      SECOND();\n\n    more();\n\n\n> quote\n>\n>     QUOTED();\n>\n>     more();\n");
+  });
+
+  it("should convert indented blocks to fenced blocks when adding metadata", () => {
+    const result = updateInfoStrings(source, new Map([ [ 1, { file: "quoted.js" } ] ]), { indented: true });
+    assert.ok(result.endsWith("> quote\n>\n> ```file=quoted.js\n> quoted();\n> ```\n"));
+    assert.equal(parse({ source: result })[0]?.code,"quoted();");
+  });
+});
+
+describe("MDX", () => {
+  const source = [
+    "import { Tabs, TabItem } from \"@theme/Tabs\";",
+    "export const meta = {",
+    "  title: \"```js\",",
+    "};",
+    "",
+    "<Tabs>",
+    "  <TabItem value=\"npm\">",
+    "",
+    "    ```sh file=install.sh",
+    "    npm install mdcode",
+    "    ```",
+    "",
+    "  </TabItem>",
+    "</Tabs>",
+    "",
+    "{/* mdcode file=app.js */}",
+    "```js",
+    "run();",
+    "```",
+    "",
+    "<Note title={`",
+    "```js",
+    "fake();",
+    "```",
+    "`} />",
+    "",
+    "{/*",
+    "```js",
+    "commented();",
+    "```",
+    "*/}",
+    "",
+  ].join("\n");
+
+  it("should find indented fences inside JSX", () => {
+    const blocks = parse({ source, mdx: true });
+    assert.equal(blocks.length,2);
+    assert.equal(blocks[0]?.lang,"sh");
+    assert.deepEqual(blocks[0]?.meta,{ file: "install.sh" });
+    assert.equal(blocks[0]?.code,"npm install mdcode");
+  });
+
+  it("should ignore fences inside ESM, expressions and comments", () => {
+    const blocks = parse({ source, mdx: true });
+    assert.deepEqual(blocks.map(block => block.code),[ "npm install mdcode", "run();" ]);
+    assert.deepEqual(parseDocument({ source, mdx: true }).diagnostics,[]);
+  });
+
+  it("should read metadata from {/* mdcode */} comments", () => {
+    assert.deepEqual(parse({ source, mdx: true })[1]?.meta,{ file: "app.js" });
+  });
+
+  it("should keep markdown parsing unchanged without mdx", () => {
+    assert.deepEqual(parse({ source }).map(block => block.code),[ "run();", "fake();", "commented();" ]);
+  });
+
+  it("should round-trip when walking", async () => {
+    const unchanged = await walk({ source, mdx: true, walker: block => block });
+    assert.equal(unchanged.source,source);
+
+    const result = await walk({ source, mdx: true, walker: block => ({ ...block, code: block.code.toUpperCase() }) });
+    assert.equal(result.source,source.replace("npm install mdcode","NPM INSTALL MDCODE").replace("run();","RUN();"));
+  });
+
+  it("should insert metadata as an MDX comment at the fence indentation", () => {
+    const result = updateInfoStrings(source, new Map([ [ 0, { name: "npm" } ] ]), { mdx: true, metaStyle: "comment" });
+    assert.ok(result.includes("\n\n    {/* mdcode name=npm */}\n    ```sh file=install.sh\n"));
+    assert.equal(parse({ source: result, mdx: true })[0]?.meta.name,"npm");
+  });
+
+  it("should update existing MDX comments in place", () => {
+    const result = updateInfoStrings(source, new Map([ [ 1, { file: "main.js" } ] ]), { mdx: true, metaStyle: "comment" });
+    assert.ok(result.includes("{/* mdcode file=main.js */}\n```js\nrun();"));
+  });
+});
+
+describe("AsciiDoc", () => {
+  const source = [
+    "= Guide",
+    "",
+    "== Getting Started",
+    "",
+    ".App.java",
+    "[source,java,file=App.java,region=main]",
+    "----",
+    "System.out.println(\"Hi\");",
+    "----",
+    "",
+    "////",
+    "----",
+    "commented();",
+    "----",
+    "////",
+    "",
+    "// mdcode file=install.sh",
+    "[source#install%linenums,sh,title=\"Install, then run\"]",
+    "----",
+    "npm install",
+    "----",
+    "",
+    "----",
+    "plain listing",
+    "----",
+    "",
+    "....",
+    "literal text",
+    "....",
+    "",
+    "[[usage]]",
+    "=== Usage",
+    "",
+    "[source,python]",
+    "....",
+    "print(1)",
+    "....",
+    "",
+  ].join("\n");
+
+  it("should find listing blocks and source literal blocks", () => {
+    const blocks = parse({ source, format: "asciidoc" });
+    assert.deepEqual(blocks.map(block => block.code),[ "System.out.println(\"Hi\");", "npm install", "plain listing", "print(1)" ]);
+    assert.deepEqual(blocks.map(block => block.lang),[ "java", "sh", "", "python" ]);
+    assert.deepEqual(parseDocument({ source, format: "asciidoc" }).diagnostics,[]);
+  });
+
+  it("should map attribute lists and mdcode comments onto meta", () => {
+    const blocks = parse({ source, format: "asciidoc" });
+    assert.deepEqual(blocks[0]?.meta,{ file: "App.java", region: "main" });
+    assert.deepEqual(blocks[1]?.meta,{ file: "install.sh", name: "install", linenums: "true", title: "Install, then run" });
+    assert.equal(parse({ source, format: "asciidoc", filter: { file: "App.java" } }).length,1);
+  });
+
+  it("should track sections with Asciidoctor ids", () => {
+    const blocks = parse({ source, format: "asciidoc" });
+    assert.deepEqual(blocks[0]?.headings,[ "Guide", "Getting Started" ]);
+    assert.equal(blocks[0]?.slug,"_getting_started");
+    assert.equal(blocks[3]?.slug,"usage");
+  });
+
+  it("should report positions from the block title to the closing delimiter", () => {
+    const position = parse({ source, format: "asciidoc" })[0]?.position;
+    assert.equal(position?.opening?.start.line,5);
+    assert.equal(position?.info?.start.line,6);
+    assert.equal(position?.code?.start.line,8);
+    assert.equal(position?.closing?.start.line,9);
+  });
+
+  it("should report unclosed blocks and duplicate attributes", () => {
+    const { diagnostics } = parseDocument({ source: "[source,js,file=a.js,file=b.js]\n----\nrun();\n", format: "asciidoc" });
+    assert.deepEqual(diagnostics.map(diagnostic => diagnostic.code),[ "unclosed-fence", "duplicate-meta" ]);
+  });
+
+  it("should update code between the delimiters", async () => {
+    const result = await walk({ source, format: "asciidoc", walker: block => ({ ...block, code: block.code.toUpperCase() }) });
+    assert.equal(result.source,source
+      .replace("System.out.println(\"Hi\");","SYSTEM.OUT.PRINTLN(\"HI\");")
+      .replace("npm install","NPM INSTALL")
+      .replace("plain listing","PLAIN LISTING")
+      .replace("print(1)","PRINT(1)"));
+  });
+
+  it("should write metadata to attribute lists", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 0, { file: "Main.java", title: "a b" } ], [ 1, { name: "setup" } ], [ 2, { file: "plain.txt" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "asciidoc" });
+    assert.ok(result.includes("\n[source,java,file=Main.java,region=main,title=\"a b\"]\n----\n"));
+    assert.ok(result.includes("\n[source#setup%linenums,sh,title=\"Install, then run\"]\n"));
+    assert.ok(result.includes("\n\n[file=plain.txt]\n----\nplain listing\n"));
+    assert.equal(parse({ source: result, format: "asciidoc" })[2]?.meta.file,"plain.txt");
+  });
+
+  it("should write metadata to mdcode comments", () => {
+    const updates = new Map([ [ 1, { file: "setup.sh" } ], [ 2, { file: "plain.txt" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "asciidoc", metaStyle: "comment" });
+    assert.ok(result.includes("\n// mdcode file=setup.sh\n[source#install"));
+    assert.ok(result.includes("\n\n// mdcode file=plain.txt\n----\nplain listing\n"));
+  });
+  it("should be selected by file extension", () => {
+    assert.deepEqual(syntaxForPath("docs/guide.adoc"),{ format: "asciidoc" });
+    assert.deepEqual(syntaxForPath("GUIDE.ASCIIDOC"),{ format: "asciidoc" });
+    assert.deepEqual(syntaxForPath("docs/intro.mdx"),{ mdx: true });
+    assert.deepEqual(syntaxForPath("docs/index.rst"),{ format: "rst" });
+    assert.deepEqual(syntaxForPath("notes/runbook.org"),{ format: "org" });
+    assert.deepEqual(syntaxForPath("examples/Demo.ipynb"),{ format: "ipynb" });
+    assert.deepEqual(syntaxForPath("src/index.ts"),{ format: "jsdoc" });
+    assert.deepEqual(syntaxForPath("lib/app.mjs"),{ format: "jsdoc" });
+    assert.deepEqual(syntaxForPath("pkg/mod.py"),{ format: "python" });
+    assert.deepEqual(syntaxForPath("guide/Index.HTML"),{ format: "html" });
+    assert.deepEqual(syntaxForPath("docs.adoc/README.md"),{});
+  });
+});
+
+describe("reStructuredText", () => {
+  const source = [
+    "Guide",
+    "=====",
+    "",
+    "Getting Started",
+    "---------------",
+    "",
+    ".. code-block:: python",
+    "   :caption: Example",
+    "   :file: app.py",
+    "   :linenos:",
+    "",
+    "   def main():",
+    "",
+    "       print(\"hi\")",
+    "",
+    "",
+    "Some text::",
+    "",
+    "   .. code-block:: python",
+    "",
+    "      literal()",
+    "",
+    "..",
+    "   .. code-block:: sh",
+    "",
+    "      commented",
+    "",
+    ".. note::",
+    "",
+    "   .. mdcode region=main",
+    "   .. code-block:: sh",
+    "",
+    "      npm install",
+    "",
+    ".. code:: js",
+    "",
+    "  run();",
+    "",
+  ].join("\n");
+
+  it("should find code directives, skipping literal blocks and comments", () => {
+    const blocks = parse({ source, format: "rst" });
+    assert.deepEqual(blocks.map(block => block.lang),[ "python", "sh", "js" ]);
+    assert.deepEqual(blocks.map(block => block.code),[ "def main():\n\n    print(\"hi\")", "npm install", "run();" ]);
+    assert.deepEqual(parseDocument({ source, format: "rst" }).diagnostics,[]);
+  });
+
+  it("should turn directive options and mdcode comments into meta", () => {
+    const blocks = parse({ source, format: "rst" });
+    assert.deepEqual(blocks[0]?.meta,{ caption: "Example", file: "app.py", linenos: "true" });
+    assert.deepEqual(blocks[1]?.meta,{ region: "main" });
+  });
+
+  it("should track sections with docutils ids", () => {
+    const block = parse({ source, format: "rst" })[0];
+    assert.deepEqual(block?.headings,[ "Guide", "Getting Started" ]);
+    assert.equal(block?.slug,"getting-started");
+  });
+
+  it("should report the directive and its options as the opening", () => {
+    const position = parse({ source, format: "rst" })[0]?.position;
+    assert.equal(position?.opening?.start.line,7);
+    assert.equal(position?.opening?.end.line,10);
+    assert.equal(position?.code?.start.line,12);
+    assert.equal(position?.closing,undefined);
+  });
+
+  it("should keep the directive's indentation when updating", async () => {
+    const result = await walk({ source, format: "rst", walker: block => ({ ...block, code: `${block.code}\n\nmore()` }) });
+    assert.ok(result.source.includes("\n       print(\"hi\")\n\n   more()\n\n\nSome text::"));
+    assert.ok(result.source.includes("\n      npm install\n\n      more()\n\n.. code:: js"));
+    assert.ok(result.source.endsWith("\n  run();\n\n  more()\n"));
+    assert.deepEqual(parse({ source: result.source, format: "rst" }).map(block => block.code.endsWith("more()")),[ true, true, true ]);
+  });
+
+  it("should write metadata to directive options", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 0, { file: "main.py", region: "setup" } ], [ 1, { file: "install.sh" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "rst" });
+    assert.ok(result.includes(".. code-block:: python\n   :caption: Example\n   :file: main.py\n   :linenos:\n   :region: setup\n\n"));
+    assert.ok(result.includes("   .. code-block:: sh\n      :file: install.sh\n\n      npm install"));
+    assert.deepEqual(parse({ source: result, format: "rst" })[1]?.meta,{ region: "main", file: "install.sh" });
+  });
+
+  it("should write metadata to mdcode comments", () => {
+    const updates = new Map([ [ 1, { file: "install.sh" } ], [ 2, { file: "run.js" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "rst", metaStyle: "comment" });
+    assert.ok(result.includes("   .. mdcode region=main file=install.sh\n   .. code-block:: sh\n"));
+    assert.ok(result.includes("\n.. mdcode file=run.js\n.. code:: js\n"));
+  });
+});
+
+describe("Org-mode", () => {
+  const source = [
+    "#+TITLE: Runbook",
+    "",
+    "* TODO Deploy [1/2] :ops:",
+    ":PROPERTIES:",
+    ":CUSTOM_ID: deploy",
+    ":END:",
+    "# mdcode name=deploy",
+    "#+BEGIN_SRC sh -n :tangle deploy.sh :var host=\"prod box\" :eval",
+    "./deploy.sh \"$host\"",
+    ",* not a headline",
+    "#+END_SRC",
+    "** Checks",
+    "  #+begin_src",
+    "    curl -f localhost",
+    "  #+end_src",
+    "",
+    "#+BEGIN_EXAMPLE",
+    "#+BEGIN_SRC js",
+    "example();",
+    "#+END_SRC",
+    "#+END_EXAMPLE",
+    "",
+  ].join("\n");
+
+  it("should find source blocks, skipping example blocks", () => {
+    const blocks = parse({ source, format: "org" });
+    assert.deepEqual(blocks.map(block => block.lang),[ "sh", "" ]);
+    assert.deepEqual(blocks.map(block => block.code),[ "./deploy.sh \"$host\"\n* not a headline", "curl -f localhost" ]);
+    assert.deepEqual(parseDocument({ source, format: "org" }).diagnostics,[]);
+  });
+
+  it("should turn header arguments and mdcode comments into meta", () => {
+    const block = parse({ source, format: "org" })[0];
+    assert.deepEqual(block?.meta,{ name: "deploy", file: "deploy.sh", var: "host=\"prod box\"", eval: "true" });
+    assert.deepEqual(parseSrcInfo(":tangle yes :exports both").meta,{ tangle: "yes", exports: "both" });
+    assert.deepEqual(parseSrcInfo(":dir \"/tmp/my dir\"").meta,{ dir: "/tmp/my dir" });
+  });
+
+  it("should track headlines and custom ids", () => {
+    const blocks = parse({ source, format: "org" });
+    assert.deepEqual(blocks[0]?.headings,[ "Deploy" ]);
+    assert.equal(blocks[0]?.slug,"deploy");
+    assert.deepEqual(blocks[1]?.headings,[ "Deploy", "Checks" ]);
+    assert.equal(blocks[1]?.slug,"checks");
+  });
+
+  it("should escape markup lines and keep indentation when updating", async () => {
+    const result = await walk({ source, format: "org", walker: block => ({ ...block, code: `${block.code}\n* done\n#+END_SRC` }) });
+    assert.ok(result.source.includes("\n,* not a headline\n,* done\n,#+END_SRC\n#+END_SRC\n"));
+    assert.ok(result.source.includes("\n    curl -f localhost\n    ,* done\n    ,#+END_SRC\n  #+end_src\n"));
+    assert.deepEqual(parse({ source: result.source, format: "org" }).map(block => block.code.endsWith("* done\n#+END_SRC")),[ true, true ]);
+  });
+
+  it("should write file as :tangle", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 0, { file: "release.sh", region: "main" } ], [ 1, { file: "checks/run all.sh" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "org" });
+    assert.ok(result.includes("#+BEGIN_SRC sh -n :tangle release.sh :var host=\"prod box\" :eval :region main\n"));
+    assert.ok(result.includes("  #+begin_src :tangle \"checks/run all.sh\"\n"));
+    assert.equal(parse({ source: result, format: "org" })[1]?.meta.file,"checks/run all.sh");
+  });
+
+  it("should write metadata to mdcode comments", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 0, { region: "main" } ], [ 1, { file: "checks.sh" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "org", metaStyle: "comment" });
+    assert.ok(result.includes("# mdcode name=deploy region=main\n#+BEGIN_SRC"));
+    assert.ok(result.includes("** Checks\n  # mdcode file=checks.sh\n  #+begin_src\n"));
+  });
+});
+
+describe("Jupyter notebooks", () => {
+  const notebook = {
+    cells: [
+      { cell_type: "markdown", metadata: {}, source: [ "# Demo\n", "\n", "## Setup" ] },
+      {
+        cell_type: "code",
+        execution_count: 1,
+        metadata: { mdcode: { file: "app.py", region: "main" }, tags: [] },
+        outputs: [ { name: "stdout", output_type: "stream", text: [ "hi\n" ] } ],
+        source: [ "print(\"hi\")\n", "x = 1" ],
+      },
+      { cell_type: "raw", metadata: {}, source: [ "raw" ] },
+      { cell_type: "code", execution_count: null, metadata: {}, outputs: [], source: [ "# mdcode name=second\n", "y = 2" ] },
+      { cell_type: "code", execution_count: null, outputs: [], source: "z = 3\n" },
+    ],
+    metadata: { kernelspec: { display_name: "Python 3", language: "python", name: "python3" } },
+    nbformat: 4,
+    nbformat_minor: 5,
+  };
+  const source = `${JSON.stringify(notebook, null, 1)}\n`;
+
+  it("should read code cells in the kernel language", () => {
+    const blocks = parse({ source, format: "ipynb" });
+    assert.deepEqual(blocks.map(block => block.lang),[ "python", "python", "python" ]);
+    assert.deepEqual(blocks.map(block => block.code),[ "print(\"hi\")\nx = 1", "y = 2", "z = 3" ]);
+    assert.deepEqual(parseDocument({ source, format: "ipynb" }).diagnostics,[]);
+  });
+
+  it("should read metadata from cell metadata and first-line comments", () => {
+    const blocks = parse({ source, format: "ipynb" });
+    assert.deepEqual(blocks.map(block => block.meta),[ { file: "app.py", region: "main" }, { name: "second" }, {} ]);
+    assert.deepEqual(blocks[0]?.headings,[ "Demo", "Setup" ]);
+    assert.equal(blocks[0]?.slug,"setup");
+  });
+
+  it("should write code back, keeping outputs, comments and formatting", async () => {
+    const result = await walk({ source, format: "ipynb", walker: block => ({ ...block, code: `${block.code}\nprint("done")` }) });
+    const cells = (JSON.parse(result.source) as typeof notebook).cells;
+    assert.deepEqual(cells[1]?.source,[ "print(\"hi\")\n", "x = 1\n", "print(\"done\")" ]);
+    assert.deepEqual(cells[1]?.outputs,notebook.cells[1]?.outputs);
+    assert.deepEqual(cells[3]?.source,[ "# mdcode name=second\n", "y = 2\n", "print(\"done\")" ]);
+    assert.equal(cells[4]?.source,"z = 3\nprint(\"done\")\n");
+    const expected = structuredClone(notebook);
+    expected.cells[1]!.source = [ "print(\"hi\")\n", "x = 1\n", "print(\"done\")" ];
+    expected.cells[3]!.source = [ "# mdcode name=second\n", "y = 2\n", "print(\"done\")" ];
+    expected.cells[4]!.source = "z = 3\nprint(\"done\")\n";
+    assert.equal(result.source,`${JSON.stringify(expected, null, 1)}\n`);
+  });
+
+  it("should write metadata to cell metadata", () => {
+    const updates = new Map([ [ 0, { file: "main.py" } ], [ 1, { file: "second.py" } ], [ 2, { file: "third.py" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "ipynb" });
+    assert.deepEqual(parse({ source: result, format: "ipynb" }).map(block => block.meta),[
+      { file: "main.py", region: "main" },
+      { name: "second", file: "second.py" },
+      { file: "third.py" },
+    ]);
+    assert.ok(result.includes("   \"metadata\": {\n    \"mdcode\": {\n     \"file\": \"main.py\",\n     \"region\": \"main\"\n    },\n    \"tags\": []\n   },"));
+    assert.ok(result.includes("  {\n   \"metadata\": {\n    \"mdcode\": {\n     \"file\": \"third.py\"\n    }\n   },\n   \"cell_type\": \"code\","));
+  });
+
+  it("should write metadata to first-line comments", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 1, { title: "Second cell" } ], [ 2, { file: "third.py" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "ipynb", metaStyle: "comment" });
+    const cells = (JSON.parse(result) as typeof notebook).cells;
+    assert.deepEqual(cells[3]?.source,[ "# mdcode name=second title=\"Second cell\"\n", "y = 2" ]);
+    assert.equal(cells[4]?.source,"# mdcode file=third.py\nz = 3\n");
+    assert.deepEqual(parse({ source: result, format: "ipynb" }).map(block => block.code),[ "print(\"hi\")\nx = 1", "y = 2", "z = 3" ]);
+  });
+
+  it("should report invalid JSON", () => {
+    assert.throws(() => parse({ source: "{\n \"cells\": [\n", format: "ipynb" }),/Invalid notebook JSON at line 3, column 1/);
+    assert.deepEqual(parse({ source: "", format: "ipynb" }),[]);
+  });
+});
+
+describe("JSDoc", () => {
+  const source = [
+    "const pattern = /\\/\\*\\*/g;",
+    "const text = \"/** ```js\";",
+    "",
+    "/**",
+    " * Parse a value.",
+    " *",
+    " * @example",
+    " * ```ts file=example.ts",
+    " * parse(\"a\"); /* note *\\/",
+    " * ```",
+    " */",
+    "export function parse(value: string): string {",
+    "  return value;",
+    "}",
+    "",
+    "class Reader {",
+    "  /**",
+    "   * Read it:",
+    "   * - first",
+    "   *   ```js",
+    "   *   read();",
+    "   *   ```",
+    "   */",
+    "  read(): void {}",
+    "}",
+    "",
+  ].join("\n");
+
+  it("should find fenced blocks in doc comments, skipping strings and regular expressions", () => {
+    const blocks = parse({ source, format: "jsdoc" });
+    assert.deepEqual(blocks.map(block => block.lang),[ "ts", "js" ]);
+    assert.deepEqual(blocks.map(block => block.code),[ "parse(\"a\"); /* note */", "read();" ]);
+    assert.deepEqual(blocks[0]?.meta,{ file: "example.ts" });
+    assert.deepEqual(parseDocument({ source, format: "jsdoc" }).diagnostics,[]);
+  });
+
+  it("should use the documented declaration as the heading", () => {
+    const blocks = parse({ source, format: "jsdoc" });
+    assert.deepEqual(blocks.map(block => block.headings),[ [ "parse" ], [ "read" ] ]);
+    assert.deepEqual(blocks.map(block => block.slug),[ "parse", "read" ]);
+    assert.equal(blocks[0]?.position?.opening?.start.line,8);
+    assert.equal(blocks[0]?.position?.opening?.start.column,4);
+  });
+
+  it("should put the comment prefix back when updating", async () => {
+    const result = await walk({ source, format: "jsdoc", walker: block => ({ ...block, code: `${block.code}\n\n/* done */` }) });
+    assert.ok(result.source.includes("\n * parse(\"a\"); /* note *\\/\n *\n * /* done *\\/\n * ```\n */\n"));
+    assert.ok(result.source.includes("\n   *   read();\n   *\n   *   /* done *\\/\n   *   ```\n"));
+    assert.deepEqual(parse({ source: result.source, format: "jsdoc" }).map(block => block.code.endsWith("\n\n/* done */")),[ true, true ]);
+  });
+
+  it("should write metadata inside the comment", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 0, { region: "main" } ], [ 1, { file: "read.js" } ] ]);
+    assert.ok(updateInfoStrings(source, updates, { format: "jsdoc" }).includes("   *   ```js file=read.js\n"));
+    const result = updateInfoStrings(source, updates, { format: "jsdoc", metaStyle: "comment" });
+    assert.ok(result.includes(" * @example\n * <!-- mdcode region=main -->\n * ```ts file=example.ts\n"));
+    assert.ok(result.includes("   * - first\n   *   <!-- mdcode file=read.js -->\n   *   ```js\n"));
+  });
+});
+
+describe("HTML", () => {
+  const source = [
+    "<h1 id=\"intro\">Intro &amp; setup</h1>",
+    "<script>const s = \"<pre><code>x</code></pre>\";</script>",
+    "<!-- <pre><code>skipped</code></pre> -->",
+    "  <!-- mdcode region=main -->",
+    "  <pre><code class=\"hljs language-js\" data-file=\"app.js\">",
+    "if (a &lt; b &amp;&amp; c) log(&quot;hi&#33;&quot;);",
+    "</code></pre>",
+    "<h2>Shell</h2>",
+    "<pre><code>ls &gt; out</code></pre>",
+    "<pre>not code</pre>",
+    "",
+  ].join("\n");
+
+  it("should find <pre><code> elements and decode their content", () => {
+    const blocks = parse({ source, format: "html" });
+    assert.deepEqual(blocks.map(block => block.lang),[ "js", "" ]);
+    assert.deepEqual(blocks.map(block => block.code),[ "if (a < b && c) log(\"hi!\");", "ls > out" ]);
+    assert.deepEqual(blocks[0]?.meta,{ file: "app.js", region: "main" });
+    assert.deepEqual(blocks.map(block => block.headings),[ [ "Intro & setup" ], [ "Intro & setup", "Shell" ] ]);
+    assert.deepEqual(blocks.map(block => block.slug),[ "intro", "shell" ]);
+    assert.equal(blocks[0]?.position?.code?.start.line,6);
+    assert.deepEqual(parseDocument({ source, format: "html" }).diagnostics,[]);
+  });
+
+  it("should keep named references it does not decode when updating", async () => {
+    const html = "<pre><code>&copy; 2024 &mdash; a &rarr; b&hellip; &amp; c</code></pre>\n";
+    assert.equal(parse({ source: html, format: "html" })[0]?.code,"&copy; 2024 &mdash; a &rarr; b&hellip; & c");
+
+    const result = await walk({ source: html, format: "html", walker: block => ({ ...block, code: block.code.replace("2024", "2025") }) });
+    assert.equal(result.source,"<pre><code>&copy; 2025 &mdash; a &rarr; b&hellip; &amp; c</code></pre>\n");
+  });
+
+  it("should escape code when updating", async () => {
+    const result = await walk({ source, format: "html", walker: block => ({ ...block, code: `${block.code}\n<done> & more` }) });
+    assert.ok(result.source.includes("\">\nif (a &lt; b &amp;&amp; c) log(\"hi!\");\n&lt;done&gt; &amp; more\n</code></pre>\n"));
+    assert.ok(result.source.includes("<pre><code>ls &gt; out\n&lt;done&gt; &amp; more</code></pre>\n"));
+  });
+
+  it("should write metadata as data- attributes or comments", () => {
+    const updates = new Map<number, Record<string, string>>([ [ 0, { file: "b.js", title: "a \"b\"" } ], [ 1, { file: "ls.sh" } ] ]);
+    const result = updateInfoStrings(source, updates, { format: "html" });
+    assert.ok(result.includes("<code class=\"hljs language-js\" data-file=\"b.js\" data-title=\"a &quot;b&quot;\">"));
+    assert.ok(result.includes("<pre><code data-file=\"ls.sh\">ls"));
+    assert.equal(parse({ source: result, format: "html" })[0]?.meta.title,"a \"b\"");
+
+    const commented = updateInfoStrings(source, new Map([ [ 1, { file: "ls.sh" } ] ]), { format: "html", metaStyle: "comment" });
+    assert.ok(commented.includes("<h2>Shell</h2>\n<!-- mdcode file=ls.sh -->\n<pre><code>ls"));
+  });
+
+  it("should report an unclosed <code> element", () => {
+    const diagnostics = parseDocument({ source: "<pre><code class=\"language-sh\">ls\n", format: "html" }).diagnostics;
+    assert.deepEqual(diagnostics.map(diagnostic => diagnostic.code),[ "unclosed-fence" ]);
+  });
+});
+
+describe("Python docstrings", () => {
+  const source = [
+    "\"\"\"Module docstring.",
+    "",
+    ">>> 1 + 1",
+    "2",
+    "\"\"\"",
+    "",
+    "HELP = \"\"\"not a docstring",
+    ">>> ignored",
+    "\"\"\"",
+    "",
+    "class Point:",
+    "    def scale(self, factor):",
+    "        \"\"\"Scale the point.",
+    "",
+    "        >>> Point().scale(2)",
+    "        'scaled'",
+    "        \"\"\"",
+    "        return \"scaled\"",
+    "",
+    "def plain():",
+    "    \"\"\"No examples.\"\"\"",
+    "",
+  ].join("\n");
+
+  it("should find docstrings with doctest examples", () => {
+    const blocks = parse({ source, format: "python" });
+    assert.deepEqual(blocks.map(block => block.lang),[ "pycon", "pycon" ]);
+    assert.deepEqual(blocks.map(block => block.code),[ "\n>>> 1 + 1\n2", "\n>>> Point().scale(2)\n'scaled'" ]);
+    assert.deepEqual(blocks.map(block => block.headings),[ [], [ "Point", "scale" ] ]);
+    assert.deepEqual(blocks.map(block => block.slug),[ "", "scale" ]);
+    assert.equal(blocks[1]?.position?.code?.start.line,14);
+  });
+
+  it("should keep the docstring indentation when updating", async () => {
+    const result = await walk({ source, format: "python", walker: block => ({ ...block, code: block.code.replace("'scaled'", "'done'") }) });
+    assert.ok(result.source.includes("        >>> Point().scale(2)\n        'done'\n        \"\"\"\n"));
+  });
+
+  it("should not write metadata", () => {
+    assert.throws(() => updateInfoStrings(source, new Map([ [ 0, { file: "a.py" } ] ]), { format: "python" }),/Python docstrings/);
+  });
+});
+
+describe("adapters", () => {
+  // A line-based format: `=== lang key=value` opens a block and `===` closes it
+  const notes: DocumentAdapter = {
+    find: source => {
+      const blocks: Array<Block> = [];
+      for (const match of source.matchAll(/^=== (\S+)(.*)\n([\s\S]*?)^===$/gm)) {
+        const start = match.index + match[0].indexOf("\n") + 1;
+        const meta = Object.fromEntries((match[2] || "").trim().split(/\s+/).filter(Boolean).map(pair => pair.split("=")));
+        blocks.push({ lang: match[1] || "", meta, code: (match[3] || "").replace(/\n$/, ""), position: { start, end: start + (match[3] || "").length } });
+      }
+      return blocks;
+    },
+    apply: (source, edits) => {
+      let result = source;
+      for (const { block, code, meta } of [ ...edits ].sort((a, b) => (b.block.position?.start ?? 0) - (a.block.position?.start ?? 0))) {
+        const { start = 0, end = 0 } = block.position || {};
+        if (code !== undefined) {
+          result = result.substring(0, start) + code.replace(/\n?$/, "\n") + result.substring(end);
+        }
+        if (meta) {
+          const header = result.lastIndexOf("\n", start - 2) + 1;
+          const pairs = Object.entries({ ...block.meta, ...meta }).map(([ key, value ]) => ` ${key}=${value}`).join("");
+          result = `${result.substring(0, header)}=== ${block.lang}${pairs}${result.substring(start - 1)}`;
+        }
+      }
+      return result;
+    },
+  };
+  const source = "Intro\n=== js file=a.js\nold();\n===\n=== sh\nls\n===\n";
+
+  it("should pick registered adapters by file extension", () => {
+    registerAdapter([ "notes", ".NOTE" ], notes);
+    assert.deepEqual(syntaxForPath("docs/guide.notes"),{ adapter: notes });
+    assert.deepEqual(syntaxForPath("docs/GUIDE.note"),{ adapter: notes });
+    assert.deepEqual(syntaxForPath("docs/guide.md"),{});
+  });
+
+  it("should parse and filter blocks with an adapter", () => {
+    assert.deepEqual(parse({ source, adapter: notes }).map(block => block.code),[ "old();", "ls" ]);
+    assert.deepEqual(parse({ source, adapter: notes, filter: { lang: "sh" } }).map(block => block.code),[ "ls" ]);
+    assert.deepEqual(parseDocument({ source, adapter: notes }).diagnostics,[]);
+  });
+
+  it("should write code and metadata edits with an adapter", async () => {
+    const result = await walk({ source, adapter: notes, filter: { file: "a.js" }, walker: block => ({ ...block, code: "run();\ndone();" }) });
+    assert.equal(result.modified,true);
+    assert.equal(result.source,"Intro\n=== js file=a.js\nrun();\ndone();\n===\n=== sh\nls\n===\n");
+    assert.equal(updateInfoStrings(source, new Map([ [ 1, { file: "ls.sh" } ] ]), { adapter: notes }),"Intro\n=== js file=a.js\nold();\n===\n=== sh file=ls.sh\nls\n===\n");
+  });
+
+  it("should keep code edits and skip a new language or removed keys with an adapter", async () => {
+    const result = await walk({ source, adapter: notes, walker: block => block.lang === "js" ? { ...block, lang: "ts", code: "run();", meta: {} } : block });
+    assert.equal(result.source,"Intro\n=== js file=a.js\nrun();\n===\n=== sh\nls\n===\n");
+    assert.deepEqual(result.changes.map(({ fields, skipped }) => [ fields, skipped ]),[ [ [ "code" ], [ "lang", "meta" ] ] ]);
+  });
+
+  it("should provide markdown as the built-in adapter", () => {
+    const markdown = "# Title\n\n    indented\n\n```js file=a.js\nold();\n```\n";
+    const blocks = markdownAdapter.find(markdown, { indented: true });
+    assert.deepEqual(blocks.map(block => block.code),[ "indented", "old();" ]);
+    assert.equal(
+      markdownAdapter.apply(markdown, [ { index: 0, block: blocks[0]!, code: "changed", meta: { file: "b.txt" } }, { index: 1, block: blocks[1]!, code: "new();" } ], { indented: true }),
+      "# Title\n\n```file=b.txt\nchanged\n```\n\n```js file=a.js\nnew();\n```\n"
+    );
+  });
 });
 
 describe("parse", () => {
@@ -241,6 +1399,88 @@ describe("walk", () => {
 
     assert.equal(result.blocks.length,1);
   });
+
+  it("should change the language and metadata of blocks", async () => {
+    const source = "```js file=a.js name=a\none\n```\n\n<!-- mdcode region=main -->\n```sh\ntwo\n```\n\n```py\nthree\n```\n";
+    const result = await walk({
+      source,
+      walker: block => {
+        if (block.lang === "js") {
+          return { ...block, lang: "ts", meta: { file: "a.ts", name: "a" } };
+        }
+        if (block.lang === "sh") {
+          return { ...block, code: "TWO", meta: { title: "Run it" } };
+        }
+        return block;
+      },
+    });
+
+    assert.equal(result.source,"```ts file=a.ts name=a\none\n```\n\n```sh title=\"Run it\"\nTWO\n```\n\n```py\nthree\n```\n");
+    assert.deepEqual(result.changes.map(({ block, fields }) => [ block.lang, fields ]),[ [ "js", [ "lang", "meta" ] ], [ "sh", [ "code", "meta" ] ] ]);
+    assert.deepEqual(parse({ source: result.source }).map(block => block.meta),[ { file: "a.ts", name: "a" }, { title: "Run it" }, {} ]);
+
+    const unchanged = await walk({ source, walker: block => ({ ...block, meta: { ...block.meta } }) });
+    assert.equal(unchanged.modified,false);
+    assert.deepEqual(unchanged.changes,[]);
+  });
+
+  it("should not report removing keys from front matter defaults as a change", async () => {
+    const source = "---\nmdcode:\n  meta:\n    region: main\n---\n```js file=a.js\ncode\n```\n";
+    const result = await walk({ source, walker: block => ({ ...block, meta: { file: "a.js" } }) });
+    assert.equal(result.source,source);
+    assert.equal(result.modified,false);
+    assert.deepEqual(result.changes,[]);
+  });
+
+  it("should set the language and delete keys in every format that writes them", async () => {
+    const walker = (block: Block) => ({ ...block, lang: "ts", meta: { title: "Run" } });
+    const cases: Array<[ DocumentFormat, string, string ]> = [
+      [ "jsdoc", "/**\n * ```js file=a.js\n * run();\n * ```\n */\n", "/**\n * ```ts title=Run\n * run();\n * ```\n */\n" ],
+      [ "asciidoc", "[source,js,file=a.js]\n----\nrun();\n----\n", "[source,ts,title=Run]\n----\nrun();\n----\n" ],
+      [ "asciidoc", "----\nrun();\n----\n", "[source,ts,title=Run]\n----\nrun();\n----\n" ],
+      [ "rst", ".. code-block:: python\n   :file: a.py\n\n   run()\n", ".. code-block:: ts\n   :title: Run\n\n   run()\n" ],
+      [ "org", "#+BEGIN_SRC sh :tangle a.sh\nrun\n#+END_SRC\n", "#+BEGIN_SRC ts :title Run\nrun\n#+END_SRC\n" ],
+      [ "html", "<pre><code class=\"language-x wide\" data-file=\"a.x\">run</code></pre>\n", "<pre><code class=\"language-ts wide\" data-title=\"Run\">run</code></pre>\n" ],
+    ];
+
+    for (const [ format, source, expected ] of cases) {
+      const result = await walk({ source, format, walker });
+      assert.equal(result.source,expected);
+      assert.deepEqual(parse({ source: result.source, format }).map(({ lang, meta }) => ({ lang, meta })),[ { lang: "ts", meta: { title: "Run" } } ]);
+      assert.deepEqual(result.changes.map(({ fields, skipped }) => [ fields, skipped ]),[ [ [ "lang", "meta" ], undefined ] ]);
+    }
+  });
+
+  it("should remove emptied metadata comments in every format", async () => {
+    const walker = (block: Block) => ({ ...block, meta: {} });
+    assert.equal((await walk({ source: "// mdcode file=a.js\n[source,js]\n----\nrun();\n----\n", format: "asciidoc", walker })).source,"[source,js]\n----\nrun();\n----\n");
+    assert.equal((await walk({ source: ".. mdcode file=a.py\n\n.. code:: python\n\n   run()\n", format: "rst", walker })).source,"\n.. code:: python\n\n   run()\n");
+    assert.equal((await walk({ source: "<!-- mdcode file=a.x -->\n<pre><code>run</code></pre>\n", format: "html", walker })).source,"<pre><code>run</code></pre>\n");
+  });
+
+  it("should skip the changes other formats cannot hold, and keep the rest", async () => {
+    const notebook = {
+      cells: [ { cell_type: "code", metadata: { mdcode: { file: "a.py" } }, source: [ "# mdcode region=main\n", "old()" ] } ],
+      metadata: { kernelspec: { language: "python" } },
+    };
+    const result = await walk({ source: JSON.stringify(notebook), format: "ipynb", walker: block => ({ ...block, lang: "ts", code: "run()", meta: { title: "Run" } }) });
+    assert.deepEqual(JSON.parse(result.source).cells,[ { cell_type: "code", metadata: { mdcode: { title: "Run" } }, source: [ "run()" ] } ]);
+    assert.deepEqual(result.changes.map(({ fields, skipped }) => [ fields, skipped ]),[ [ [ "code", "meta" ], [ "lang" ] ] ]);
+
+    const python = "def f():\n    \"\"\"\n    >>> f()\n    \"\"\"\n";
+    const docstring = await walk({ source: python, format: "python", walker: block => ({ ...block, lang: "python", meta: { file: "f.py" } }) });
+    assert.equal(docstring.source,python);
+    assert.deepEqual(docstring.changes.map(({ fields, skipped }) => [ fields, skipped ]),[ [ [], [ "lang", "meta" ] ] ]);
+  });
+
+  it("should write new metadata keys where updateInfoStrings writes them", async () => {
+    const source = "```js\ncode\n```\n";
+    const walker = (block: Block) => ({ ...block, meta: { ...block.meta, file: "a.js" } });
+
+    assert.equal((await walk({ source, walker, metaStyle: "comment" })).source,updateInfoStrings(source, new Map([ [ 0, { file: "a.js" } ] ]), { metaStyle: "comment" }));
+    const rst = ".. code-block:: python\n\n   print(1)\n";
+    assert.equal((await walk({ source: rst, walker, format: "rst" })).source,updateInfoStrings(rst, new Map([ [ 0, { file: "a.js" } ] ]), { format: "rst" }));
+  });
 });
 
 describe("matchesFilter", () => {
@@ -1,37 +1,87 @@
-import type { Block, FilterOptions, ParseOptions, WalkOptions, WalkResult } from "./types.ts";
+import { once } from "node:events";
+
+import { duplicateAttributeKeys, parseAttributeList, removeAttributeKeys, scanAsciidoc, updateAttributeLang, updateAttributeList } from "./asciidoc.ts";
+import { Document } from "./document.ts";
+import { detectEol, normalizeEol } from "./eol.ts";
+import type { LineEnding } from "./eol.ts";
+import { applyDefaults, frontMatterLength, readDefaults } from "./frontmatter.ts";
+import { duplicateDataKeys, parseCodeAttributes, removeDataAttributes, scanHtml, updateCodeAttributes, updateCodeLang, writeHtmlCode } from "./html.ts";
+import { diffMeta, duplicateInfoKeys, fitsInfoString, duplicateMetaKeys, parseHeaderComment, parseInfoString, parseMetaString, removeInfoKeys, removeMetaKeys, updateInfoLang, updateInfoString, updateMetaString } from "./info.ts";
+import { escapeCommentCode, scanJsdoc } from "./jsdoc.ts";
+import { duplicateCellKeys, parseCellMetadata, removeCellMetadata, scanNotebook, updateCellMetadata, writeCellCode, writeCellComment } from "./notebook.ts";
+import { duplicateHeaderKeys, escapeSrcCode, parseSrcInfo, removeSrcKeys, scanOrg, updateSrcInfo, updateSrcLang } from "./org.ts";
+import { scanPython } from "./python.ts";
+import { duplicateOptionKeys, parseDirectiveInfo, removeDirectiveOptions, scanRst, updateDirectiveInfo, updateDirectiveLang } from "./rst.ts";
+import { blockCode, createLocator, createScanner, scan } from "./scanner.ts";
+import type { ScannedBlock, SourceLine } from "./scanner.ts";
+import { createStreamLocator, readLines } from "./stream.ts";
+import type {
+  Block,
+  BlockChange,
+  BlockField,
+  BlockPosition,
+  Diagnostic,
+  DocumentAdapter,
+  DocumentDefaults,
+  DocumentFormat,
+  DocumentOperation,
+  FilterOptions,
+  MetaStyle,
+  ParseOptions,
+  ParseResult,
+  ParseStreamOptions,
+  Point,
+  Range,
+  StreamInput,
+  StreamSyntaxOptions,
+  SyntaxOptions,
+  UpdateInfoOptions,
+  WalkOptions,
+  WalkResult,
+  WalkStreamOptions,
+  WalkStreamResult,
+} from "./types.ts";
+import { applyEdits, lineStart, nextLine, toFenced, writeLines } from "./write.ts";
+import type { Edit } from "./write.ts";
 
 /**
- * Parse metadata from the info string of a code block
- * Format: language key=value key2=value2
- * Example: "js file=foo.js region=main"
+ * A step of scanning a stream: the text of a line, the blocks it completes, and the
+ * offset from which the source may still belong to a block (undefined if none is open)
  */
-function parseInfoString(info: string | null | undefined): { lang: string; meta: Record<string, string>; } {
-  if (!info) {
-    return { lang: "", meta: {} };
-  }
-
-  const parts = info.trim().split(/\s+/);
-  const lang = parts[0] || "";
-  const meta: Record<string, string> = {};
-
-  for (let i = 1; i < parts.length; i++) {
-    const part = parts[i];
-    if (!part) continue;
-    const equalIndex = part.indexOf("=");
-    if (equalIndex > 0) {
-      const key = part.substring(0, equalIndex);
-      const value = part.substring(equalIndex + 1);
-      meta[key] = value;
-    }
-  }
+interface StreamStep {
+  text: string;
+  entries: Array<{ scanned: ScannedBlock; block: Block; }>;
+  pending?: number;
+}
 
-  return { lang, meta };
+/**
+ * The parts of parsing and rewriting that depend on the document format
+ */
+interface Dialect {
+  /** Find the code blocks in a document */
+  scan: (source: string, options: SyntaxOptions) => Array<ScannedBlock>;
+  /** Read the language and metadata from an info string */
+  parseInfo: (info: string) => { lang: string; meta: Record<string, string>; };
+  /** Find metadata keys that appear more than once in an info string */
+  duplicateKeys: (info: string) => Array<string>;
+  /** Whether a block's info string can hold a metadata key and value (default: always) */
+  fitsInfo?: (scanned: ScannedBlock, key: string, value: string) => boolean;
+  /** Write metadata updates to a block's info string */
+  updateInfo: (scanned: ScannedBlock, updates: Record<string, string>, source: string, eol: LineEnding) => Edit;
+  /** Remove metadata keys from a block's info string (absent if the format has no metadata) */
+  removeInfo?: (scanned: ScannedBlock, keys: Array<string>, source: string, eol: LineEnding) => Edit;
+  /** Write the language of a block (absent if the format decides it, e.g. from a notebook's kernel) */
+  updateLang?: (scanned: ScannedBlock, lang: string, source: string, eol: LineEnding) => Edit;
+  /** Write the metadata comment of a block, adding one if it has none (empty metadata removes it) */
+  writeComment: (scanned: ScannedBlock, meta: string, source: string, eol: LineEnding, options: SyntaxOptions) => Edit;
+  /** Text that replaces a block's code (default: the lines with the block's prefix and indentation) */
+  writeCode?: (code: string, scanned: ScannedBlock, eol: LineEnding, source: string) => string;
 }
 
 /**
  * Check if a block matches the filter criteria
  */
-function matchesFilter(block: Block, filter?: FilterOptions): boolean {
+export function matchesFilter(block: Block, filter?: FilterOptions): boolean {
   if (!filter) {
     return true;
   }
@@ -64,345 +114,856 @@ function matchesFilter(block: Block, filter?: FilterOptions): boolean {
 }
 
 /**
- * State machine for parsing code blocks
+ * Get the offsets and line/column ranges of a scanned block
  */
-interface ParserState {
-  inCodeBlock: boolean;
-  fenceChar: string; // '`'
-  fenceLength: number; // 3 or 4
-  fenceIndent: string;
-  blockStart: number; // offset where fence starts
-  codeStart: number; // offset where code content starts
-  currentBlock: Partial<Block>;
-  codeLines: Array<string>;
+function blockPosition(scanned: ScannedBlock, locate: (offset: number) => Point): BlockPosition {
+  const range = (start: number, end: number) => ({ start: locate(start), end: locate(end) });
+  const position: BlockPosition = {
+    start: scanned.codeStart,
+    end: scanned.codeEnd,
+  };
+
+  if (scanned.kind === "fenced") {
+    position.opening = range(scanned.blockStart, scanned.openEnd);
+    position.info = range(scanned.infoStart, scanned.infoEnd);
+  }
+  position.code = range(scanned.codeStart, scanned.codeEnd);
+  if (scanned.closeStart !== undefined && scanned.closeEnd !== undefined) {
+    position.closing = range(scanned.closeStart, scanned.closeEnd);
+  }
+
+  return position;
 }
 
 /**
- * Parse markdown and extract all code blocks using line-by-line state machine
+ * Format a point, e.g. "README.md:42:1" (or "line 42" without a path)
  */
-export function parse(options: ParseOptions): Array<Block> {
-  const { source, filter } = options;
-  const blocks: Array<Block> = [];
+function formatPoint(point: Point | undefined, sourcePath?: string): string {
+  if (!point) {
+    return sourcePath || "";
+  }
+  return sourcePath ? `${sourcePath}:${point.line}:${point.column}` : `line ${point.line}`;
+}
+
+/**
+ * Format where a block starts, e.g. "README.md:42:1" (or "line 42" without a path)
+ */
+export function formatLocation(block: Block, sourcePath?: string): string {
+  return formatPoint(block.position?.opening?.start || block.position?.code?.start, sourcePath);
+}
+
+/**
+ * Format a diagnostic with its location, e.g. "README.md:42:1: Unclosed code fence ..."
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, sourcePath?: string): string {
+  return `${formatPoint(diagnostic.position.start, sourcePath)}: ${diagnostic.message}`;
+}
+
+/**
+ * Find problems in a scanned block
+ */
+function diagnose(scanned: ScannedBlock, block: Block, options: SyntaxOptions, locate: (offset: number) => Point): Array<Diagnostic> {
+  const diagnostics: Array<Diagnostic> = [];
+  const range = (start: number, end: number): Range => ({ start: locate(start), end: locate(end) });
+  const infoRange = block.position?.info || range(scanned.blockStart, scanned.openEnd);
+
+  if (scanned.kind === "fenced" && !scanned.closed) {
+    diagnostics.push({
+      code: "unclosed-fence",
+      message: `Unclosed code fence: the block runs to the end of ${scanned.prefix ? "its container" : "the document"}`,
+      position: range(scanned.blockStart, scanned.openEnd),
+    });
+  }
+
+  for (const stray of scanned.strayFences) {
+    diagnostics.push({
+      code: "fence-trailing-text",
+      message: "Fence with trailing text inside a code block is treated as code (missing closing fence above?)",
+      position: range(stray.start, stray.end),
+    });
+  }
 
-  const state: ParserState = {
-    inCodeBlock: false,
-    fenceChar: "",
-    fenceLength: 0,
-    fenceIndent: "",
-    blockStart: 0,
-    codeStart: 0,
-    currentBlock: {},
-    codeLines: [],
+  const duplicates = new Set([ ...dialectFor(options).duplicateKeys(scanned.info), ...duplicateMetaKeys(scanned.comment?.text || "") ]);
+  for (const key of duplicates) {
+    diagnostics.push({
+      code: "duplicate-meta",
+      message: `Duplicate metadata key "${key}"`,
+      position: infoRange,
+    });
+  }
+
+  if (block.meta.file === "") {
+    diagnostics.push({
+      code: "empty-file",
+      message: "Empty file metadata",
+      position: infoRange,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Scan the source and build every block (before filtering), collecting diagnostics.
+ * Defaults from `mdcode:` front matter are applied to each block.
+ */
+function scanBlocks(source: string, options: SyntaxOptions): { entries: Array<{ scanned: ScannedBlock; block: Block; }>; diagnostics: Array<Diagnostic>; } {
+  const defaults = readDefaults(source);
+  const locate = createLocator(source);
+  const entries = dialectFor(options).scan(source, options)
+    .map(scanned => ({ scanned, block: applyDefaults(toBlock(scanned, options, locate), defaults) }));
+
+  return {
+    entries,
+    // In document order, rather than grouped by block and kind
+    diagnostics: entries.flatMap(({ scanned, block }) => diagnose(scanned, block, options, locate))
+      .sort((a, b) => a.position.start.offset - b.position.start.offset),
   };
+}
 
-  let offset = 0;
+/**
+ * Find every block of a document (before filtering): with the given adapter, or
+ * with the built-in one, which also reports diagnostics
+ */
+function findBlocks(source: string, options: SyntaxOptions): { blocks: Array<Block>; diagnostics: Array<Diagnostic>; } {
+  if (options.adapter) {
+    return { blocks: options.adapter.find(source, options), diagnostics: [] };
+  }
 
-  // Split source into lines while preserving line endings
-  const lines = source.split(/(\r?\n)/);
+  const { entries, diagnostics } = scanBlocks(source, options);
+  return { blocks: entries.map(({ block }) => block), diagnostics };
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i] || "";
+/**
+ * Build a Block from a scanned code block.
+ * Metadata from an `<!-- mdcode -->` comment and (with `headerMeta`) a first-line
+ * comment is merged in; the info string wins on conflicts, then the `<!-- mdcode -->` comment.
+ */
+function toBlock(scanned: ScannedBlock, options: SyntaxOptions, locate: (offset: number) => Point): Block {
+  const { lang: infoLang, meta } = dialectFor(options).parseInfo(scanned.info);
+  const lang = scanned.lang ?? infoLang;
+  const commentMeta = scanned.comment ? parseMetaString(scanned.comment.text) : {};
+  const code = blockCode(scanned);
+  const header = options.headerMeta ? parseHeaderComment(code, lang) : undefined;
+
+  const block: Block = {
+    lang,
+    meta: { ...header?.meta, ...commentMeta, ...meta },
+    code,
+    headings: scanned.headings,
+    slug: scanned.slug,
+    position: blockPosition(scanned, locate),
+  };
 
-    // Skip newline-only entries from split
-    if (line === "\n" || line === "\r\n") {
-      offset += line.length;
-      continue;
-    }
+  if (header) {
+    block.header = header.header;
+  }
 
-    if (!state.inCodeBlock) {
-      // Look for opening fence
-      const match = line.match(/^(\s*)(```+)(.*)$/);
-
-      if (match) {
-        const indent = match[1] || "";
-        const fence = match[2] || "";
-        const info = match[3] || "";
-
-        // Only support backtick fences (3 or 4)
-        if (fence[0] === "`" && (fence.length === 3 || fence.length === 4)) {
-          state.inCodeBlock = true;
-          state.fenceChar = "`";
-          state.fenceLength = fence.length;
-          state.fenceIndent = indent;
-          state.blockStart = offset;
-
-          // Parse info string
-          const { lang, meta } = parseInfoString(info);
-          state.currentBlock = { lang, meta };
-          state.codeLines = [];
-
-          // Move past the opening fence line and newline
-          offset += line.length;
-          if (i + 1 < lines.length && (lines[i + 1] === "\n" || lines[i + 1] === "\r\n")) {
-            offset += lines[i + 1]!.length;
-            i++; // Skip the newline
-          }
-          state.codeStart = offset;
-          continue;
-        }
-      }
+  return block;
+}
+
+/**
+ * Get a block's code without its first-line metadata comment (if it has one)
+ */
+export function withoutHeader(block: Block): string {
+  if (!block.header) {
+    return block.code;
+  }
+  return block.code.substring(block.header.length).replace(/^\r?\n/, "");
+}
+
+/**
+ * Write metadata comments that sit on a line of their own: an existing comment is
+ * rewritten in place (or removed with its line), otherwise `line` gives the text
+ * inserted before the block
+ */
+function commentLine(line: (scanned: ScannedBlock, meta: string, source: string, eol: LineEnding, options: SyntaxOptions) => string): Dialect["writeComment"] {
+  return (scanned, meta, source, eol, options) => {
+    if (scanned.comment && !meta) {
+      return { start: lineStart(source, scanned.comment.start), end: nextLine(source, scanned.comment.end), text: "" };
     }
-    else {
-      // Look for closing fence
-      const match = line.match(/^(\s*)(```+)\s*$/);
-
-      if (match) {
-        const indent = match[1] || "";
-        const fence = match[2] || "";
-
-        // Check if this is a matching closing fence
-        if (
-          fence[0] === state.fenceChar &&
-          fence.length >= state.fenceLength &&
-          indent.length <= state.fenceIndent.length
-        ) {
-          // Found closing fence - finalize the block
-          let code = state.codeLines.join("");
-
-          // Remove trailing newline to match remark-parse behavior
-          if (code.endsWith("\r\n")) {
-            code = code.slice(0, -2);
-          }
-          else if (code.endsWith("\n") || code.endsWith("\r")) {
-            code = code.slice(0, -1);
-          }
-
-          const codeEnd = offset;
-
-          const block: Block = {
-            lang: state.currentBlock.lang || "",
-            meta: state.currentBlock.meta || {},
-            code,
-            position: {
-              start: state.codeStart,
-              end: codeEnd,
-            },
-          };
-
-          // Apply filter and add if matches
-          if (matchesFilter(block, filter)) {
-            blocks.push(block);
-          }
-
-          // Reset state
-          state.inCodeBlock = false;
-          state.fenceChar = "";
-          state.fenceLength = 0;
-          state.fenceIndent = "";
-          state.currentBlock = {};
-          state.codeLines = [];
-
-          offset += line.length;
-          if (i + 1 < lines.length && (lines[i + 1] === "\n" || lines[i + 1] === "\r\n")) {
-            offset += lines[i + 1]!.length;
-            i++; // Skip the newline
-          }
-          continue;
-        }
-      }
+    if (scanned.comment) {
+      // Keep the space before the end of the comment only if there was one
+      const { start, end } = scanned.comment;
+      return { start, end, text: ` ${meta}${/\s$/.test(source.substring(start, end)) ? " " : ""}` };
+    }
+    return { start: scanned.blockStart, end: scanned.blockStart, text: line(scanned, meta, source, eol, options) };
+  };
+}
+
+const markdown: Dialect = {
+  scan,
+  parseInfo: parseInfoString,
+  duplicateKeys: duplicateInfoKeys,
+  // Indented code blocks become backtick fences
+  fitsInfo: (scanned, key, value) => fitsInfoString(key, value, scanned.char || "`"),
+  // Indented code blocks have no info string, so they become fenced blocks
+  updateInfo: (scanned, updates, source, eol) => scanned.kind === "indented"
+    ? { start: scanned.infoStart, end: scanned.codeEnd, text: toFenced(scanned, updateInfoString(scanned.info, updates), source, eol) }
+    : { start: scanned.infoStart, end: scanned.infoEnd, text: updateInfoString(scanned.info, updates, scanned.char) },
+  removeInfo: (scanned, keys) => ({ start: scanned.infoStart, end: scanned.infoEnd, text: removeInfoKeys(scanned.info, keys) }),
+  // An indented block becomes a fenced one (unless its language stays empty)
+  updateLang: (scanned, lang, source, eol) => scanned.kind === "indented"
+    ? { start: scanned.infoStart, end: scanned.codeEnd, text: lang ? toFenced(scanned, updateInfoLang("", lang), source, eol) : source.substring(scanned.infoStart, scanned.codeEnd) }
+    : { start: scanned.infoStart, end: scanned.infoEnd, text: updateInfoLang(scanned.info, lang) },
+  // Keep the block inside its containers (in MDX the comment is indented like the fence, e.g. inside JSX)
+  writeComment: commentLine((scanned, meta, _source, eol, options) => options.mdx
+    ? `${scanned.indent}{/* mdcode ${meta} */}${eol}${scanned.prefix}`
+    : `<!-- mdcode ${meta} -->${eol}${scanned.prefix}`),
+};
+
+const dialects: Record<DocumentFormat, Dialect> = {
+  markdown,
+  asciidoc: {
+    scan: scanAsciidoc,
+    parseInfo: parseAttributeList,
+    duplicateKeys: duplicateAttributeKeys,
+    // A block without an attribute list gets one on a new line
+    updateInfo: (scanned, updates, _source, eol) => scanned.info
+      ? { start: scanned.infoStart, end: scanned.infoEnd, text: updateAttributeList(scanned.info, updates) }
+      : { start: scanned.infoStart, end: scanned.infoStart, text: `${updateAttributeList("", updates)}${eol}` },
+    removeInfo: (scanned, keys) => ({ start: scanned.infoStart, end: scanned.infoEnd, text: removeAttributeKeys(scanned.info, keys) }),
+    updateLang: (scanned, lang, _source, eol) => scanned.info
+      ? { start: scanned.infoStart, end: scanned.infoEnd, text: updateAttributeLang(scanned.info, lang) }
+      : { start: scanned.infoStart, end: scanned.infoStart, text: lang ? `${updateAttributeLang("", lang)}${eol}` : "" },
+    writeComment: commentLine((_scanned, meta, _source, eol) => `// mdcode ${meta}${eol}`),
+  },
+  rst: {
+    scan: scanRst,
+    parseInfo: parseDirectiveInfo,
+    duplicateKeys: duplicateOptionKeys,
+    // New options are indented like the directive's content
+    updateInfo: (scanned, updates, _source, eol) =>
+      ({ start: scanned.infoStart, end: scanned.infoEnd, text: updateDirectiveInfo(scanned.info, updates, scanned.prefix + scanned.indent, eol) }),
+    removeInfo: (scanned, keys) => ({ start: scanned.infoStart, end: scanned.infoEnd, text: removeDirectiveOptions(scanned.info, keys) }),
+    updateLang: (scanned, lang, source) => {
+      const text = updateDirectiveLang(scanned.info, lang);
+      // A directive without an argument needs a space after its `::`
+      return { start: scanned.infoStart, end: scanned.infoEnd, text: lang && !/\s/.test(source[scanned.infoStart - 1] || "") ? ` ${text}` : text };
+    },
+    writeComment: commentLine((scanned, meta, _source, eol) => `.. mdcode ${meta}${eol}${scanned.prefix}`),
+  },
+  org: {
+    scan: scanOrg,
+    parseInfo: parseSrcInfo,
+    duplicateKeys: duplicateHeaderKeys,
+    updateInfo: (scanned, updates) => {
+      const text = updateSrcInfo(scanned.info, updates);
+      // A bare #+BEGIN_SRC needs a space before the new header arguments
+      return { start: scanned.infoStart, end: scanned.infoEnd, text: scanned.info === "" && text !== "" ? ` ${text}` : text };
+    },
+    removeInfo: (scanned, keys) => ({ start: scanned.infoStart, end: scanned.infoEnd, text: removeSrcKeys(scanned.info, keys) }),
+    updateLang: (scanned, lang) => {
+      const text = updateSrcLang(scanned.info, lang);
+      return { start: scanned.infoStart, end: scanned.infoEnd, text: scanned.info === "" && text !== "" ? ` ${text}` : text };
+    },
+    // Indent the comment like the #+BEGIN_SRC line
+    writeComment: commentLine((scanned, meta, source, eol) => `# mdcode ${meta}${eol}${source.substring(scanned.openStart, scanned.blockStart)}`),
+    writeCode: (code, scanned, eol) => writeLines(escapeSrcCode(code), scanned, eol),
+  },
+  ipynb: {
+    scan: scanNotebook,
+    parseInfo: parseCellMetadata,
+    duplicateKeys: duplicateCellKeys,
+    updateInfo: updateCellMetadata,
+    removeInfo: removeCellMetadata,
+    // The comment is the first line of the cell's code
+    writeComment: (scanned, meta, source, eol) => writeCellComment(scanned, meta, source, eol),
+    writeCode: writeCellCode,
+  },
+  html: {
+    scan: scanHtml,
+    parseInfo: parseCodeAttributes,
+    duplicateKeys: duplicateDataKeys,
+    updateInfo: (scanned, updates, source) => {
+      const text = updateCodeAttributes(scanned.info, updates);
+      // A bare <code> needs a space before the new attributes
+      return { start: scanned.infoStart, end: scanned.infoEnd, text: scanned.info === "" && !/\s/.test(source[scanned.infoStart - 1] || "") ? ` ${text}` : text };
+    },
+    removeInfo: (scanned, keys) => ({ start: scanned.infoStart, end: scanned.infoEnd, text: removeDataAttributes(scanned.info, keys) }),
+    updateLang: (scanned, lang, source) => {
+      const text = updateCodeLang(scanned.info, lang);
+      return { start: scanned.infoStart, end: scanned.infoEnd, text: scanned.info === "" && text !== "" && !/\s/.test(source[scanned.infoStart - 1] || "") ? ` ${text}` : text };
+    },
+    // Indent the comment like the <pre> line
+    writeComment: commentLine((scanned, meta, source, eol) => `<!-- mdcode ${meta} -->${eol}${source.substring(scanned.openStart, scanned.blockStart).match(/^[ \t]*/)?.[0] || ""}`),
+    writeCode: writeHtmlCode,
+  },
+  python: {
+    scan: scanPython,
+    // Docstrings have no metadata (the language is always pycon)
+    parseInfo: () => ({ lang: "", meta: {} }),
+    duplicateKeys: () => [],
+    updateInfo: () => {
+      throw new Error("Metadata cannot be written to Python docstrings");
+    },
+    writeComment: () => {
+      throw new Error("Metadata cannot be written to Python docstrings");
+    },
+  },
+  // Markdown inside doc comments
+  jsdoc: {
+    ...markdown,
+    scan: scanJsdoc,
+    writeCode: (code, scanned, eol) => writeLines(escapeCommentCode(code), scanned, eol),
+  },
+};
+
+/**
+ * Get the format-specific parts of parsing for the given options
+ */
+function dialectFor(options: SyntaxOptions): Dialect {
+  return dialects[options.format || "markdown"];
+}
 
-      // Inside code block - collect the line
-      state.codeLines.push(line);
-      offset += line.length;
-      if (i + 1 < lines.length && (lines[i + 1] === "\n" || lines[i + 1] === "\r\n")) {
-        state.codeLines.push(lines[i + 1]!);
-        offset += lines[i + 1]!.length;
-        i++; // Skip the newline
+/**
+ * The built-in adapter: reads and writes markdown, or the built-in format given by `format`.
+ * Custom adapters can hand documents (or parts of them) to it.
+ */
+export const markdownAdapter: DocumentAdapter = {
+  find: (source, options) => scanBlocks(source, options).entries.map(({ block }) => block),
+  apply: (source, edits, options) => {
+    const dialect = dialectFor(options);
+    const { writeCode = writeLines } = dialect;
+    const eol = detectEol(source);
+    const scanned = dialect.scan(source, options);
+    const replacements: Array<Edit> = [];
+
+    for (const { index, code } of edits) {
+      const block = scanned[index];
+      if (code === undefined || !block) {
+        continue;
+      }
+      const text = writeCode(code, block, eol, source);
+      if (text !== source.substring(block.codeStart, block.codeEnd)) {
+        replacements.push({ start: block.codeStart, end: block.codeEnd, text });
       }
-      continue;
     }
 
-    offset += line.length;
+    // Metadata goes in once the code is written: an indented block becomes a fenced one with its code
+    const updates = new Map(edits.flatMap(({ index, meta }) => meta ? [ [ index, meta ] as const ] : []));
+    return updateInfoStrings(applyEdits(source, replacements), updates, { ...options, adapter: undefined });
+  },
+};
+
+// Adapters registered with registerAdapter(), by lower-case file extension
+const adapters = new Map<string, DocumentAdapter>();
+
+/**
+ * Use an adapter for documents with the given file extensions (such as `.guide`).
+ * Registered adapters take precedence over the built-in formats, and a later
+ * registration for the same extension replaces an earlier one.
+ */
+export function registerAdapter(extensions: string | Array<string>, adapter: DocumentAdapter): void {
+  for (const extension of typeof extensions === "string" ? [ extensions ] : extensions) {
+    adapters.set(`.${extension.replace(/^\./, "")}`.toLowerCase(), adapter);
+  }
+}
+
+// JavaScript and TypeScript files, read for code blocks in doc comments
+const SCRIPT_EXTENSIONS = [ ".js", ".jsx", ".mjs", ".cjs", ".ts", ".tsx", ".mts", ".cts" ];
+
+/**
+ * Pick the syntax options for a file from its extension: `.mdx` files are MDX,
+ * `.adoc`, `.asciidoc` and `.asc` files are AsciiDoc, `.rst` and `.rest` files are reStructuredText,
+ * `.org` files are Org, `.ipynb` files are Jupyter notebooks, `.html` and `.htm` files are HTML, `.py` files are read for doctest
+ * examples in their docstrings and JavaScript and TypeScript files for code blocks in their doc comments.
+ * Extensions with a registered adapter get that adapter.
+ */
+export function syntaxForPath(filePath: string): SyntaxOptions {
+  const extension = filePath.toLowerCase().match(/\.[^./\\]+$/)?.[0];
+
+  const adapter = extension && adapters.get(extension);
+  if (adapter) {
+    return { adapter };
+  }
+  if (extension === ".mdx") {
+    return { mdx: true };
+  }
+  if (extension === ".adoc" || extension === ".asciidoc" || extension === ".asc") {
+    return { format: "asciidoc" };
+  }
+  if (extension === ".rst" || extension === ".rest") {
+    return { format: "rst" };
+  }
+  if (extension === ".org") {
+    return { format: "org" };
+  }
+  if (extension === ".ipynb") {
+    return { format: "ipynb" };
+  }
+  if (extension === ".html" || extension === ".htm") {
+    return { format: "html" };
+  }
+  if (extension === ".py") {
+    return { format: "python" };
+  }
+  if (extension && SCRIPT_EXTENSIONS.includes(extension)) {
+    return { format: "jsdoc" };
+  }
+  return {};
+}
+
+/**
+ * Parse markdown and extract all code blocks, along with diagnostics for
+ * problems such as unclosed fences, duplicate metadata keys or an empty `file`.
+ * Defaults from `mdcode:` front matter are applied before filtering.
+ */
+export function parseDocument(options: ParseOptions): ParseResult {
+  const { source, filter, format, adapter, indented, headerMeta, mdx } = options;
+  const { blocks, diagnostics } = findBlocks(source, { format, adapter, indented, headerMeta, mdx });
+
+  return {
+    blocks: blocks.filter(block => matchesFilter(block, filter)),
+    diagnostics,
+  };
+}
+
+/**
+ * Parse markdown and extract all code blocks.
+ * Defaults from `mdcode:` front matter are applied before filtering.
+ */
+export function parse(options: ParseOptions): Array<Block> {
+  return parseDocument(options).blocks;
+}
+
+/**
+ * Split metadata updates between a block's info string and its metadata comment:
+ * keys go where they are, and new keys where `metaStyle` says. Values the info
+ * string cannot hold go to the comment, and `moved` lists the keys that must
+ * leave the info string for it.
+ */
+function splitUpdates(dialect: Dialect, scanned: ScannedBlock, updates: Record<string, string>, metaStyle: MetaStyle): { infoUpdates: Record<string, string>; commentUpdates: Record<string, string>; moved: Array<string>; } {
+  const infoMeta = dialect.parseInfo(scanned.info).meta;
+  const commentMeta = scanned.comment ? parseMetaString(scanned.comment.text) : {};
+  const infoUpdates: Record<string, string> = {};
+  const commentUpdates: Record<string, string> = {};
+  const moved: Array<string> = [];
+
+  for (const [ key, value ] of Object.entries(updates)) {
+    const fits = dialect.fitsInfo?.(scanned, key, value) ?? true;
+    const toComment = !fits || (!Object.hasOwn(infoMeta, key) && (Object.hasOwn(commentMeta, key) || metaStyle === "comment"));
+    (toComment ? commentUpdates : infoUpdates)[key] = value;
+    if (!fits && Object.hasOwn(infoMeta, key)) {
+      moved.push(key);
+    }
   }
 
-  return blocks;
+  return { infoUpdates, commentUpdates, moved };
 }
 
 /**
- * Update info strings in markdown source with new metadata
+ * Update info strings in markdown source with new metadata.
+ * Keys already present are updated where they are (info string or `<!-- mdcode -->`
+ * comment); new keys go where `metaStyle` says. Indented code blocks have no info
+ * string, so they are converted to fenced blocks when keys go to the info string.
  * @param source - Original markdown source
  * @param updates - Map of block index to metadata updates
+ * @param options - Syntax options used to number the blocks (must match the ones used to parse them) and the metadata style
  * @returns Updated markdown source with modified info strings
  */
 export function updateInfoStrings(
   source: string,
-  updates: Map<number, Record<string, string>>
+  updates: Map<number, Record<string, string>>,
+  options: UpdateInfoOptions = {}
 ): string {
   if (updates.size === 0) {
     return source;
   }
 
-  // Parse to get all blocks (without filter)
-  const blocks = parse({ source });
-
-  // Track fence positions as we scan through the source
-  const lines = source.split(/(\r?\n)/);
-  let offset = 0;
-  let blockIndex = 0;
+  const { metaStyle = "info", ...syntax } = options;
 
-  // Build list of replacements: { start, end, newLine }
-  type Replacement = { start: number; end: number; newLine: string };
-  const replacements: Array<Replacement> = [];
-  let inCodeBlock = false;
+  if (syntax.adapter) {
+    const blocks = syntax.adapter.find(source, syntax);
+    const edits = [ ...updates ].flatMap(([ index, meta ]) => {
+      const block = blocks[index];
+      return block ? [ { index, block, meta } ] : [];
+    });
+    return syntax.adapter.apply(source, edits, options);
+  }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i] || "";
+  const dialect = dialectFor(syntax);
+  const eol = detectEol(source);
+  const replacements: Array<Edit> = [];
+  const blocks = dialect.scan(source, syntax);
+
+  // Keys whose new value the info string cannot hold leave it first
+  const moved = new Map(blocks.flatMap((scanned, index) => {
+    const update = updates.get(index);
+    const keys = update ? splitUpdates(dialect, scanned, update, metaStyle).moved : [];
+    return keys.length > 0 ? [ [ index, keys ] as const ] : [];
+  }));
+  if (moved.size > 0) {
+    return updateInfoStrings(deleteMetaKeys(source, moved, syntax), updates, options);
+  }
 
-    // Skip newline-only entries
-    if (line === "\n" || line === "\r\n") {
-      offset += line.length;
+  for (const [ blockIndex, scanned ] of blocks.entries()) {
+    // Check if this block needs updating
+    const update = updates.get(blockIndex);
+    if (!update) {
       continue;
     }
 
-    if (!inCodeBlock) {
-      // Look for opening fence
-      const match = line.match(/^(\s*)(```+)(.*)$/);
+    const { infoUpdates, commentUpdates } = splitUpdates(dialect, scanned, update, metaStyle);
 
-      if (match) {
-        const indent = match[1] || "";
-        const fence = match[2] || "";
-        const info = match[3] || "";
+    if (Object.keys(infoUpdates).length > 0) {
+      // Merge updates into the existing info string
+      replacements.push(dialect.updateInfo(scanned, infoUpdates, source, eol));
+    }
 
-        // Only backtick fences (3 or 4)
-        if (fence[0] === "`" && (fence.length === 3 || fence.length === 4)) {
-          inCodeBlock = true;
+    if (Object.keys(commentUpdates).length > 0) {
+      const meta = updateMetaString(scanned.comment?.text || "", commentUpdates);
+      replacements.push(dialect.writeComment(scanned, meta, source, eol, syntax));
+    }
+  }
 
-          // Check if this block needs updating
-          const update = updates.get(blockIndex);
+  return applyEdits(source, replacements);
+}
 
-          if (update) {
-            // Parse existing info string
-            const { lang, meta } = parseInfoString(info);
+/**
+ * Get the format-specific parts of rewriting a document, checking that it can make an edit
+ * @param operation - What is done, for the error message
+ */
+function rewritingDialect<K extends "updateLang" | "removeInfo">(options: SyntaxOptions, part: K, operation: string): Dialect & Required<Pick<Dialect, K>> {
+  const dialect = dialectFor(options);
+  if (options.adapter || !dialect[part]) {
+    throw new Error(`${operation} is not supported in ${options.adapter ? "documents read by an adapter" : `${options.format} documents`}`);
+  }
+  return dialect as Dialect & Required<Pick<Dialect, K>>;
+}
 
-            // Merge updates
-            const newMeta = { ...meta, ...update };
+/**
+ * Set the language of blocks, in every built-in format that writes one (not
+ * notebooks, whose language is the kernel's, or Python docstrings).
+ * Indented markdown blocks become fenced blocks.
+ * @param langs - Map of block index to the new language
+ * @param options - Syntax options used to number the blocks (must match the ones used to parse them)
+ */
+export function updateLangs(source: string, langs: Map<number, string>, options: SyntaxOptions = {}): string {
+  if (langs.size === 0) {
+    return source;
+  }
 
-            // Build new info string
-            const metaParts = Object.entries(newMeta).map(([k, v]) => `${k}=${v}`);
-            const newInfo = [lang, ...metaParts].filter(Boolean).join(" ");
+  const dialect = rewritingDialect(options, "updateLang", "Setting the language");
+  const eol = detectEol(source);
+  const replacements = dialect.scan(source, options).flatMap((scanned, index) => {
+    const lang = langs.get(index);
+    return lang === undefined ? [] : [ dialect.updateLang(scanned, lang, source, eol) ];
+  });
 
-            // Record replacement
-            const lineStart = offset;
-            const lineEnd = offset + line.length;
-            const newLine = `${indent}${fence}${newInfo}`;
+  return applyEdits(source, replacements.filter(({ start, end, text }) => source.substring(start, end) !== text));
+}
 
-            replacements.push({ start: lineStart, end: lineEnd, newLine });
-          }
+/**
+ * Delete metadata keys of blocks from their info strings and metadata comments
+ * (a comment left empty is removed), in every built-in format that has metadata.
+ * @param keys - Map of block index to the keys to delete
+ * @param options - Syntax options used to number the blocks (must match the ones used to parse them)
+ */
+export function deleteMetaKeys(source: string, keys: Map<number, Array<string>>, options: SyntaxOptions = {}): string {
+  if (keys.size === 0) {
+    return source;
+  }
 
-          blockIndex++;
-        }
-      }
+  const dialect = rewritingDialect(options, "removeInfo", "Deleting metadata");
+  const eol = detectEol(source);
+  const replacements = dialect.scan(source, options).flatMap((scanned, index) => {
+    const removed = keys.get(index);
+    if (!removed) {
+      return [];
     }
-    else {
-      // Look for closing fence
-      const match = line.match(/^(\s*)(```+)\s*$/);
 
-      if (match) {
-        inCodeBlock = false;
-      }
+    const edits = [ dialect.removeInfo(scanned, removed, source, eol) ];
+    const commentMeta = scanned.comment ? parseMetaString(scanned.comment.text) : {};
+    if (scanned.comment && removed.some(key => Object.hasOwn(commentMeta, key))) {
+      edits.push(dialect.writeComment(scanned, removeMetaKeys(scanned.comment.text, removed), source, eol, options));
     }
+    return edits;
+  });
 
-    offset += line.length;
-    // Account for newline after this line
-    if (i + 1 < lines.length && (lines[i + 1] === "\n" || lines[i + 1] === "\r\n")) {
-      offset += lines[i + 1]!.length;
-      i++; // Skip the newline
+  return applyEdits(source, replacements.filter(({ start, end, text }) => source.substring(start, end) !== text));
+}
+
+/**
+ * Walk through code blocks and optionally transform them: walkers can change the
+ * code, language and metadata of blocks, and get the `Document` being walked for other edits.
+ * Changes the document's format cannot hold (such as a new language outside markdown)
+ * are left out and listed in the change's `skipped` fields.
+ */
+export async function walk(options: WalkOptions): Promise<WalkResult> {
+  const { source, walker, filter, format, adapter, indented, headerMeta, mdx, metaStyle } = options;
+  const document = new Document(source, { format, adapter, indented, headerMeta, mdx, metaStyle });
+  const { diagnostics } = document;
+  const blocks: Array<Block> = [];
+  const changes: Array<BlockChange> = [];
+
+  // Walk all code blocks, keeping the ones that match the filter
+  for (const block of document.blocks) {
+    // A walker may have removed the block before it is reached
+    if (!matchesFilter(block, filter) || document.indexOf(block) < 0) {
+      continue;
+    }
+    blocks.push(block);
+
+    // Apply the walker function; if it returns null, empty the block content
+    const result = await walker(block, { document, index: document.indexOf(block) });
+    // The walker may have removed the block, or moved it
+    const index = document.indexOf(block);
+    if (index < 0) {
+      continue;
     }
-  }
 
-  // Apply replacements in reverse order to maintain correct offsets
-  replacements.sort((a, b) => b.start - a.start);
-  let result = source;
+    const code = result?.code ?? "";
+    const lang = result?.lang ?? block.lang;
+    const { updates, removed } = diffMeta(block.meta, result?.meta ?? block.meta, block.inherited);
+    const fields: Array<BlockField> = [];
+    const skipped: Array<BlockField> = [];
+    const change = (field: BlockField, operation: DocumentOperation, edit: () => void) => {
+      const supported = document.supports(operation);
+      if (supported) {
+        edit();
+      }
+      const list = supported ? fields : skipped;
+      if (!list.includes(field)) {
+        list.push(field);
+      }
+    };
 
-  for (const { start, end, newLine } of replacements) {
-    result = result.substring(0, start) + newLine + result.substring(end);
+    if (code !== block.code) {
+      change("code", "setCode", () => document.setCode(index, code));
+    }
+    if (lang !== block.lang) {
+      change("lang", "setLang", () => document.setLang(index, lang));
+    }
+    // New keys are written like `updateInfoStrings()` writes them
+    if (Object.keys(updates).length > 0) {
+      change("meta", "setMeta", () => document.setMeta(index, updates));
+    }
+    if (removed.length > 0) {
+      change("meta", "deleteMeta", () => document.deleteMeta(index, removed));
+    }
+
+    if (fields.length > 0 || skipped.length > 0) {
+      changes.push(skipped.length > 0 ? { block, fields, skipped } : { block, fields });
+    }
   }
 
-  return result;
+  // Code that comes out byte-identical (e.g. it only differed in line endings) leaves the source untouched
+  const newSource = document.toString();
+
+  return {
+    source: newSource,
+    blocks,
+    modified: newSource !== source,
+    changes,
+    diagnostics,
+  };
 }
 
+// The first line of YAML front matter
+const FRONT_MATTER_START = /^\uFEFF?---[ \t]*$/;
+
 /**
- * Walk through code blocks and optionally transform them
+ * Scan a markdown stream one line at a time.
+ * Lines that may be front matter are held (with `pending` at 0) until its closing
+ * line; the last step, with empty text, has the blocks still open at the end.
  */
-export async function walk(options: WalkOptions): Promise<WalkResult> {
-  const { source, walker, filter } = options;
-  let modified = false;
-  const blocks: Array<Block> = [];
+async function* scanStream(input: StreamInput, options: StreamSyntaxOptions): AsyncGenerator<StreamStep> {
+  const scanner = createScanner(options);
+  const locator = createStreamLocator();
+  let defaults: DocumentDefaults | undefined;
+  // Lines that may be front matter, and their text
+  let held: Array<SourceLine> | undefined;
+  let frontMatter = "";
+  let last: SourceLine | undefined;
+
+  const build = (blocks: Array<ScannedBlock>) =>
+    blocks.map(scanned => ({ scanned, block: applyDefaults(toBlock(scanned, options, locator.locate), defaults) }));
+
+  for await (const line of readLines(input)) {
+    locator.add(line.start);
+    last = line;
+
+    if (line.start === 0 && line.eol && FRONT_MATTER_START.test(line.text)) {
+      held = [];
+    }
+    if (held) {
+      held.push(line);
+      frontMatter += line.text + line.eol;
+      if (frontMatterLength(frontMatter) === 0) {
+        yield { text: line.text + line.eol, entries: [], pending: 0 };
+        continue;
+      }
+      defaults = readDefaults(frontMatter);
+      held = undefined;
+      frontMatter = "";
+      yield { text: line.text + line.eol, entries: [] };
+      continue;
+    }
 
-  // List of replacements to apply: { start, end, newCode }
-  interface Replacement {
-    start: number;
-    end: number;
-    newCode: string;
+    const entries = build(scanner.feed(line));
+    const pending = scanner.pending();
+    yield { text: line.text + line.eol, entries, pending };
+    locator.release(Math.min(pending ?? line.start, line.start));
   }
-  const replacements: Array<Replacement> = [];
 
-  // Parse all blocks
-  const parsedBlocks = parse({ source, filter });
+  // A document ending with a line ending has an empty last line
+  if (last?.eol) {
+    locator.add(last.end);
+  }
+  // Without a closing line, the lines held were not front matter
+  yield { text: "", entries: build([ ...(held || []).flatMap(line => scanner.feed(line)), ...scanner.end() ]) };
+}
 
-  // Apply walker function to each block
-  for (const block of parsedBlocks) {
-    blocks.push(block);
+/**
+ * Parse a markdown stream, yielding each block (that matches the filter) as soon
+ * as it is complete. Blocks are the same as the ones `parse()` returns, without
+ * reading the whole document into memory; only markdown and MDX can be streamed.
+ */
+export async function* parseStream(options: ParseStreamOptions): AsyncGenerator<Block> {
+  const { input, filter, indented, headerMeta, mdx } = options;
 
-    // Apply the walker function
-    const result = await walker(block);
-
-    // If walker returns null, empty the block content (but keep newline for fence separation)
-    if (result === null) {
-      if (block.position) {
-        replacements.push({
-          start: block.position.start,
-          end: block.position.end,
-          newCode: "\n",
-        });
-        modified = true;
+  for await (const { entries } of scanStream(input, { indented, headerMeta, mdx })) {
+    for (const { block } of entries) {
+      if (matchesFilter(block, filter)) {
+        yield block;
       }
-      continue;
     }
+  }
+}
 
-    // If the block was modified, record the replacement
-    if (result.code !== block.code) {
-      if (block.position) {
-        // Ensure code ends with newline for proper fence separation
-        let newCode = result.code;
-        if (newCode.length > 0 && !newCode.endsWith("\n") && !newCode.endsWith("\r\n")) {
-          newCode += "\n";
-        }
-        replacements.push({
-          start: block.position.start,
-          end: block.position.end,
-          newCode,
-        });
-        modified = true;
-      }
+/**
+ * Write text to a stream, waiting while its buffer is full
+ */
+async function writeText(output: WalkStreamOptions["output"], text: string): Promise<void> {
+  if (text && !output.write(text)) {
+    await once(output, "drain");
+  }
+}
+
+/**
+ * Move the offsets of a scanned block, for a part of the source that starts at `from`
+ */
+function shiftBlock(scanned: ScannedBlock, from: number): ScannedBlock {
+  const shift = (offset: number) => offset - from;
+  const shifted: ScannedBlock = {
+    ...scanned,
+    infoStart: shift(scanned.infoStart),
+    infoEnd: shift(scanned.infoEnd),
+    openStart: shift(scanned.openStart),
+    blockStart: shift(scanned.blockStart),
+    openEnd: shift(scanned.openEnd),
+    codeStart: shift(scanned.codeStart),
+    codeEnd: shift(scanned.codeEnd),
+    strayFences: scanned.strayFences.map(({ start, end }) => ({ start: shift(start), end: shift(end) })),
+  };
+
+  if (scanned.closeStart !== undefined && scanned.closeEnd !== undefined) {
+    shifted.closeStart = shift(scanned.closeStart);
+    shifted.closeEnd = shift(scanned.closeEnd);
+  }
+  if (scanned.comment) {
+    shifted.comment = { ...scanned.comment, start: shift(scanned.comment.start), end: shift(scanned.comment.end) };
+  }
+
+  return shifted;
+}
+
+/**
+ * Edits that give a markdown block new code, language and metadata, written as
+ * `walk()` writes them but from the block's own source only (for streams)
+ */
+function rewriteBlock(
+  scanned: ScannedBlock,
+  change: { code?: string; lang?: string; updates: Record<string, string>; removed: Array<string>; },
+  source: string,
+  eol: LineEnding,
+  options: UpdateInfoOptions
+): Array<Edit> {
+  const { infoUpdates, commentUpdates, moved } = splitUpdates(markdown, scanned, change.updates, options.metaStyle || "info");
+  const edits: Array<Edit> = [];
+
+  let info = removeInfoKeys(updateInfoString(scanned.info, infoUpdates, scanned.char || "`"), [ ...change.removed, ...moved ]);
+  if (change.lang !== undefined) {
+    info = updateInfoLang(info, change.lang);
+  }
+
+  if (scanned.kind === "indented" && info) {
+    // The block becomes a fenced one, with its new code
+    const code = normalizeEol(change.code ?? blockCode(scanned), eol);
+    edits.push({ start: scanned.infoStart, end: scanned.codeEnd, text: toFenced({ ...scanned, lines: [ code.endsWith(eol) ? code : code + eol ] }, info, source, eol) });
+  }
+  else {
+    edits.push({ start: scanned.infoStart, end: scanned.infoEnd, text: info });
+    if (change.code !== undefined) {
+      edits.push({ start: scanned.codeStart, end: scanned.codeEnd, text: writeLines(change.code, scanned, eol) });
     }
   }
 
-  // If no modifications, return original source
-  if (!modified) {
-    return {
-      source,
-      blocks,
-      modified: false,
-    };
+  const comment = removeMetaKeys(updateMetaString(scanned.comment?.text || "", commentUpdates), change.removed);
+  if (comment) {
+    edits.push(markdown.writeComment(scanned, comment, source, eol, options));
+  }
+  else if (scanned.comment) {
+    // A comment left empty is removed with its line
+    edits.push({ start: lineStart(source, scanned.comment.start), end: nextLine(source, scanned.comment.end), text: "" });
   }
 
-  // Sort replacements in reverse order (by start position, descending)
-  // This ensures that later replacements don't affect the offsets of earlier ones
-  replacements.sort((a, b) => b.start - a.start);
+  return edits.filter(({ start, end, text }) => source.substring(start, end) !== text);
+}
 
-  // Apply all replacements to the source string
-  let newSource = source;
-  for (const replacement of replacements) {
-    newSource =
-      newSource.substring(0, replacement.start) +
-      replacement.newCode +
-      newSource.substring(replacement.end);
+/**
+ * Walk through the code blocks of a markdown stream and optionally transform them,
+ * writing the document to `output` as it goes. Only the source of the block being
+ * read is held, so memory does not grow with the size of the document. New code,
+ * language and metadata are written as `walk()` writes them.
+ */
+export async function walkStream(options: WalkStreamOptions): Promise<WalkStreamResult> {
+  const { input, output, walker, filter, indented, headerMeta, mdx, metaStyle } = options;
+  // Source not written yet, from `offset` on
+  let buffer = "";
+  let offset = 0;
+  let eol: LineEnding | undefined;
+  let count = 0;
+  let modified = false;
+
+  for await (const { text, entries, pending } of scanStream(input, { indented, headerMeta, mdx })) {
+    buffer += text;
+    // The document's line ending style is the one of its first line break
+    eol ??= text.endsWith("\n") ? detectEol(text) : undefined;
+
+    for (const { scanned, block } of entries) {
+      if (!matchesFilter(block, filter)) {
+        continue;
+      }
+      count++;
+
+      // If the walker returns null, empty the block content
+      const result = await walker(block);
+      const code = result?.code ?? "";
+      const lang = result?.lang ?? block.lang;
+      const { updates, removed } = diffMeta(block.meta, result?.meta ?? block.meta, block.inherited);
+
+      // The block's source (from its metadata comment) is still in the buffer
+      const change = { code: code === block.code ? undefined : code, lang: lang === block.lang ? undefined : lang, updates, removed };
+      const edits = rewriteBlock(shiftBlock(scanned, offset), change, buffer, eol ?? "\n", { mdx, metaStyle });
+      if (edits.length > 0) {
+        const end = scanned.codeEnd - offset;
+        await writeText(output, applyEdits(buffer.substring(0, end), edits));
+        buffer = buffer.substring(end);
+        offset = scanned.codeEnd;
+        modified = true;
+      }
+    }
+
+    // Write out the source that no open block can change
+    const done = (pending ?? offset + buffer.length) - offset;
+    if (done > 0) {
+      await writeText(output, buffer.substring(0, done));
+      buffer = buffer.substring(done);
+      offset += done;
+    }
   }
 
-  return {
-    source: newSource,
-    blocks,
-    modified,
-  };
+  return { count, modified };
 }
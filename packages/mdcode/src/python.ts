@@ -0,0 +1,159 @@
+/**
+ * Python support: doctest examples (`>>>`) in docstrings
+ * Example:
+ * def add(a, b):
+ *     """Add two numbers.
+ *
+ *     >>> add(1, 2)
+ *     3
+ *     """
+ */
+
+import { BOM } from "./eol.ts";
+import { slugify, splitLines } from "./scanner.ts";
+import type { ScannedBlock, SourceLine } from "./scanner.ts";
+
+/**
+ * A `def` or `class` enclosing the current position
+ */
+interface Scope {
+  indent: number;
+  name: string;
+}
+
+const DOCSTRING_START = /^([ \t]*)[rRuU]?("""|''')/;
+const DEFINITION = /^([ \t]*)(?:async[ \t]+)?(?:def|class)[ \t]+([A-Za-z_]\w*)/;
+const PROMPT = /^[ \t]*>>>(?: |$)/m;
+
+/**
+ * Count the leading whitespace of a line
+ */
+function indentation(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+/**
+ * Count the triple quotes of the given kind in a line, ignoring those after a `#` comment
+ * (a rough check that is enough to skip strings that start mid-line)
+ */
+function countDelimiters(text: string, delimiter: string): number {
+  const code = text.replace(/#.*$/, "");
+  return code.split(delimiter).length - 1;
+}
+
+/**
+ * Build the block for a docstring that spans several lines
+ */
+function docstringBlock(opening: SourceLine, quote: number, content: Array<SourceLine>, closing: SourceLine, scopes: Array<Scope>, slug: string): ScannedBlock {
+  const widths = content.filter(line => line.text.trim() !== "").map(line => indentation(line.text));
+  const width = widths.length > 0 ? Math.min(...widths) : 0;
+  const closeStart = closing.start + indentation(closing.text);
+
+  return {
+    kind: "fenced",
+    char: "",
+    length: 0,
+    prefix: "",
+    indent: " ".repeat(width),
+    lang: "pycon",
+    info: "",
+    infoStart: quote + 3,
+    infoEnd: quote + 3,
+    openStart: opening.start,
+    blockStart: quote,
+    openEnd: opening.start + opening.text.length,
+    codeStart: opening.end,
+    codeEnd: closing.start,
+    lines: content.map(line => line.text.substring(Math.min(width, indentation(line.text))) + line.eol),
+    closed: true,
+    closeStart,
+    closeEnd: closing.start + closing.text.trimEnd().length,
+    strayFences: [],
+    headings: scopes.map(scope => scope.name),
+    slug,
+  };
+}
+
+/**
+ * Scan Python source for docstrings with doctest examples.
+ *
+ * A docstring is a triple-quoted string that starts a line. Docstrings with a
+ * `>>>` prompt become `pycon` blocks: the code is the lines between the opening
+ * and the closing line, with their common indentation kept in `indent`. Text on
+ * the line of the opening or closing quotes (such as the summary line) is not
+ * part of the block. Other triple-quoted strings are skipped.
+ *
+ * The enclosing `class` and `def` names give the headings; the innermost one is the slug.
+ */
+export function scanPython(source: string): Array<ScannedBlock> {
+  const blocks: Array<ScannedBlock> = [];
+  const scopes: Array<Scope & { slug: string; }> = [];
+  const slugs = new Map<string, number>();
+  // The docstring being read, or the delimiter of another string being skipped
+  let docstring: { opening: SourceLine; quote: number; delimiter: string; content: Array<SourceLine>; } | undefined;
+  let skipping: string | undefined;
+
+  const lines = splitLines(source);
+
+  // A byte order mark is not part of the first line's content
+  if (lines[0]?.text.startsWith(BOM)) {
+    lines[0] = { ...lines[0], text: lines[0].text.substring(BOM.length), start: BOM.length };
+  }
+
+  for (const line of lines) {
+    if (docstring) {
+      if (line.text.includes(docstring.delimiter)) {
+        const { opening, quote, content } = docstring;
+        if (content.some(text => PROMPT.test(text.text))) {
+          blocks.push(docstringBlock(opening, quote, content, line, scopes, scopes.at(-1)?.slug || ""));
+        }
+        docstring = undefined;
+      }
+      else {
+        docstring.content.push(line);
+      }
+      continue;
+    }
+
+    if (skipping) {
+      if (countDelimiters(line.text, skipping) % 2 === 1) {
+        skipping = undefined;
+      }
+      continue;
+    }
+
+    const blank = line.text.trim() === "";
+    if (!blank && !line.text.trimStart().startsWith("#")) {
+      // Leave the definitions this line is not inside of
+      while (scopes.length > 0 && indentation(line.text) <= (scopes.at(-1)?.indent ?? 0)) {
+        scopes.pop();
+      }
+    }
+
+    const start = line.text.match(DOCSTRING_START);
+    if (start) {
+      const delimiter = start[2] || "\"\"\"";
+      const quote = line.start + start[0].length - 3;
+      // A docstring that closes on its opening line has no examples to check
+      if (countDelimiters(line.text.substring(start[0].length), delimiter) === 0) {
+        docstring = { opening: line, quote, delimiter, content: [] };
+      }
+      continue;
+    }
+
+    const definition = line.text.match(DEFINITION);
+    if (definition?.[2]) {
+      scopes.push({ indent: (definition[1] || "").length, name: definition[2], slug: slugify(definition[2], slugs) });
+    }
+
+    // A string that starts mid-line and does not close on it
+    for (const delimiter of [ "\"\"\"", "'''" ]) {
+      if (countDelimiters(line.text, delimiter) % 2 === 1) {
+        skipping = delimiter;
+        break;
+      }
+    }
+  }
+
+  return blocks;
+}
@@ -62,6 +62,33 @@ content here
     assert.equal(result.found,true);
     assert.equal(result.content,"content here");
   });
+
+  it("should read AsciiDoc tag regions, leaving out nested tag markers", () => {
+    const source = `
+public class App {
+  // tag::main[]
+  public static void main(String[] args) {
+    // tag::greet[]
+    System.out.println("Hello");
+    // end::greet[]
+  }
+  // end::main[]
+}
+    `.trim();
+
+    assert.equal(read(source, "main").content,"  public static void main(String[] args) {\n    System.out.println(\"Hello\");\n  }");
+    assert.equal(read(source, "greet").content,"    System.out.println(\"Hello\");");
+    assert.equal(read(source, "gree").found,false);
+  });
+
+  it("should read AsciiDoc tag regions in any comment style", () => {
+    const source = "# tag::setup[]\nimport os\n# end::setup[]\n";
+
+    const result = read(source, "setup", "python");
+
+    assert.equal(result.found,true);
+    assert.equal(result.content,"import os");
+  });
 });
 
 describe("region.outline", () => {
@@ -238,6 +265,14 @@ describe("region edge cases", () => {
     assert.ok(result.content.includes("content"));
   });
 
+  it("should keep CRLF line endings when reading and replacing", () => {
+    const source = "a\r\n// #region test\r\nold\r\n// #endregion\r\nb\r\n";
+
+    assert.equal(read(source, "test").content,"old");
+    assert.equal(read("// #region test\r\none\r\ntwo\r\n// #endregion", "test").content,"one\r\ntwo");
+    assert.equal(replace(source, "test", "new\nlines\n").content,"a\r\n// #region test\r\nnew\r\nlines\r\n// #endregion\r\nb\r\n");
+  });
+
   it("should handle mixed line endings", () => {
     const source = "// #region test\ncontent\r\n// #endregion";
     const result = read(source, "test");
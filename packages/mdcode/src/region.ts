@@ -1,8 +1,10 @@
 /**
  * Region extraction and manipulation utilities
- * Handles #region/#endregion markers in source files
+ * Handles #region/#endregion markers in source files (and AsciiDoc tag::name[]/end::name[] markers when reading)
  */
 
+import { detectEol, normalizeEol } from "./eol.ts";
+
 export type RegionReadResult = {
   content: string;
   found: boolean;
@@ -22,13 +24,22 @@ export type RegionOutlineResult = {
  * Read a specific region from source code.
  * Joins all occurrences of the same-named region.
  * Pass `lang` to use language-specific comment styles; defaults to // and /* *\/.
+ *
+ * AsciiDoc `tag::name[]` ... `end::name[]` markers work too, in any comment style.
+ * As with `include::file[tag=name]`, other tag markers inside the region are left out.
  */
 export function read(source: string, regionName: string, lang?: string): RegionReadResult {
-  const lines = source.split("\n");
-  let inRegion = false;
+  const eol = detectEol(source);
+  const lines = source.split(/\r?\n/);
+  // Marker that ends the region we are in
+  let regionEnd: RegExp | undefined;
   const regionContent: Array<string> = [];
   let found = false;
 
+  const tagStart = new RegExp(`\\btag::${escapeRegex(regionName)}\\[\\]`);
+  const tagEnd = new RegExp(`\\bend::${escapeRegex(regionName)}\\[\\]`);
+  const tagMarker = /\b(?:tag|end)::\S+?\[\]/;
+
   let startPattern: RegExp;
   let endPattern: RegExp;
 
@@ -43,24 +54,28 @@ export function read(source: string, regionName: string, lang?: string): RegionR
   }
 
   for (const line of lines) {
-    if (!inRegion) {
+    if (!regionEnd) {
       if (startPattern.test(line)) {
-        inRegion = true;
+        regionEnd = endPattern;
+        found = true;
+      }
+      else if (tagStart.test(line)) {
+        regionEnd = tagEnd;
         found = true;
       }
     }
     else {
-      if (endPattern.test(line)) {
-        inRegion = false;
+      if (regionEnd.test(line)) {
+        regionEnd = undefined;
       }
-      else {
+      else if (regionEnd !== tagEnd || !tagMarker.test(line)) {
         regionContent.push(line);
       }
     }
   }
 
   return {
-    content: regionContent.join("\n"),
+    content: regionContent.join(eol),
     found,
   };
 }
@@ -104,10 +119,11 @@ export function outline(source: string): RegionOutlineResult {
 
 /**
  * Replace content within a specific region
- * Preserves the region markers and surrounding code
+ * Preserves the region markers and surrounding code, and the source's line endings
  */
 export function replace(source: string, regionName: string, newContent: string): RegionReplaceResult {
-  const lines = source.split("\n");
+  const eol = detectEol(source);
+  const lines = source.split(/\r?\n/);
   const result: Array<string> = [];
   let inRegion = false;
   let found = false;
@@ -124,7 +140,7 @@ export function replace(source: string, regionName: string, newContent: string):
         found = true;
         // Insert new content after the region start marker
         // Remove trailing newline from newContent if it exists, since we'll add it via join
-        const contentToInsert = newContent.endsWith("\n") ? newContent.slice(0, -1) : newContent;
+        const contentToInsert = newContent.replace(/\r?\n$/, "");
         if (contentToInsert) {
           result.push(contentToInsert);
         }
@@ -140,7 +156,7 @@ export function replace(source: string, regionName: string, newContent: string):
   }
 
   return {
-    content: result.join("\n"),
+    content: normalizeEol(result.join("\n"), eol),
     found,
   };
 }
@@ -173,6 +189,8 @@ export function getCommentStyle(lang: string): Array<string> {
     bash: [ "#" ],
     yaml: [ "#" ],
     yml: [ "#" ],
+    r: [ "#" ],
+    julia: [ "#" ],
     html: [ "<!--" ],
     xml: [ "<!--" ],
   };
@@ -0,0 +1,347 @@
+/**
+ * reStructuredText support: `.. code-block::` directives with their options
+ * Example:
+ * .. code-block:: python
+ *    :caption: Example
+ *    :file: app.py
+ *
+ *    print("Hello")
+ */
+
+import { BOM } from "./eol.ts";
+import type { LineEnding } from "./eol.ts";
+import { frontMatterLength } from "./frontmatter.ts";
+import { splitLines } from "./scanner.ts";
+import type { MetaComment, ScannedBlock, SourceLine } from "./scanner.ts";
+
+/**
+ * A section heading enclosing the current position
+ */
+interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+/**
+ * A code directive being read: its scanned block and the raw content lines
+ */
+interface OpenDirective {
+  block: ScannedBlock;
+  /** Indentation of the `..` */
+  indent: number;
+  /** Whether option lines may still follow */
+  options: boolean;
+  /** Content lines, from the first to the last non-blank one */
+  content: Array<SourceLine>;
+  /** Blank lines seen after the content, kept only if more content follows */
+  blanks: Array<SourceLine>;
+}
+
+const CODE_DIRECTIVE = /^( *)\.\. +(?:code-block|sourcecode|code)::/;
+const OPTION = /^ +:([^:\s][^:]*):(?:[ \t]+(.*?))?[ \t]*$/;
+const META_COMMENT = /^( *\.\. +mdcode)((?:\s.*?)?)\s*$/;
+const EXPLICIT_MARKUP = /^( *)\.\.(?:\s|$)/;
+const OTHER_DIRECTIVE = /^ *\.\. +[\w.+:-]+::/;
+const ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/;
+
+/**
+ * Count the leading spaces of a line
+ */
+function indentation(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+/**
+ * Parse the info of a code directive: the argument (language) on the directive
+ * line, then one `:key: value` option per line. Options without a value are flags.
+ */
+export function parseDirectiveInfo(info: string): { lang: string; meta: Record<string, string>; } {
+  const [ argument = "", ...options ] = info.split(/\r?\n/);
+  const meta: Record<string, string> = {};
+
+  for (const line of options) {
+    const option = line.match(OPTION);
+    if (option?.[1]) {
+      meta[option[1]] = option[2] || "true";
+    }
+  }
+
+  return { lang: argument.trim(), meta };
+}
+
+/**
+ * Apply metadata updates to the info of a code directive.
+ * Existing options are rewritten in place (flags stay flags while their value is
+ * "true"); new options are appended on their own lines with the given indentation.
+ */
+export function updateDirectiveInfo(info: string, updates: Record<string, string>, indent: string, eol: LineEnding): string {
+  const pending = new Map(Object.entries(updates));
+  const format = (key: string, value: string) => `:${key}: ${value.replace(/\r?\n/g, " ")}`;
+
+  const result = info.replace(/^( +):([^:\s][^:]*):(.*)$/gm, (line: string, spaces: string, key: string, rest: string) => {
+    const value = pending.get(key);
+    if (value === undefined) {
+      return line;
+    }
+    pending.delete(key);
+    return value === "true" && rest.trim() === "" ? line : `${spaces}${format(key, value)}`;
+  });
+
+  // New options go below the existing ones, indented like them
+  const optionIndent = info.split(/\r?\n/).slice(1).find(line => OPTION.test(line))?.match(/^ +/)?.[0] || indent;
+  const appended = [ ...pending ].map(([ key, value ]) => `${eol}${optionIndent}${format(key, value)}`);
+
+  return result.trimEnd() + appended.join("");
+}
+
+/**
+ * Set the language of a code directive: its argument
+ */
+export function updateDirectiveLang(info: string, lang: string): string {
+  return info.replace(/^[^\r\n]*/, lang);
+}
+
+/**
+ * Remove options from the info of a code directive, with their lines
+ */
+export function removeDirectiveOptions(info: string, keys: Array<string>): string {
+  return info.replace(/\r?\n +:([^:\s][^:]*):.*$/gm, (line: string, key: string) => keys.includes(key) ? "" : line);
+}
+
+/**
+ * Find options that appear more than once in the info of a code directive
+ */
+export function duplicateOptionKeys(info: string): Array<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const line of info.split(/\r?\n/).slice(1)) {
+    const key = line.match(OPTION)?.[1];
+    if (key !== undefined) {
+      if (seen.has(key)) {
+        duplicates.add(key);
+      }
+      seen.add(key);
+    }
+  }
+
+  return [ ...duplicates ];
+}
+
+/**
+ * Build a docutils-style section id (`getting-started`), adding -1, -2, ... for repeats
+ */
+function sectionId(text: string, seen: Map<string, number>): string {
+  const id = text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^[-0-9]+|-+$/g, "");
+  const count = seen.get(id) || 0;
+  seen.set(id, count + 1);
+  return count > 0 ? `${id}-${count}` : id;
+}
+
+/**
+ * Finish a code directive: strip the content indentation and set the code offsets
+ */
+function closeDirective(directive: OpenDirective): ScannedBlock {
+  const { block, content } = directive;
+  const width = Math.min(...content.filter(line => line.text.trim() !== "").map(line => indentation(line.text)));
+
+  if (content.length > 0) {
+    block.indent = " ".repeat(width - directive.indent);
+    block.codeStart = content[0]?.start ?? block.codeStart;
+    block.codeEnd = content.at(-1)?.end ?? block.codeEnd;
+    block.lines = content.map(line => line.text.substring(Math.min(width, line.text.length)) + line.eol);
+  }
+
+  return block;
+}
+
+/**
+ * Scan reStructuredText source for `code-block` (or `code`, `sourcecode`) directives.
+ *
+ * The directive argument is the language and the option lines below it hold the
+ * metadata; together they form the block's `info`. The content is the indented
+ * text after them. The directive's indentation is kept in `prefix` and the extra
+ * indentation of the content in `indent`, so rewrites keep the content inside
+ * the directive. A `.. mdcode key=value` comment on the line before is attached
+ * as `comment`.
+ *
+ * Literal blocks (after `::`) and the bodies of comments are skipped. Section
+ * titles are recognised by their underlines (and overlines); levels follow the
+ * order in which adornment styles first appear.
+ */
+export function scanRst(source: string): Array<ScannedBlock> {
+  const blocks: Array<ScannedBlock> = [];
+  let current: OpenDirective | undefined;
+  // Lines indented more than this are skipped (the body of a comment or literal block)
+  let skipIndent: number | undefined;
+  // A paragraph ending in `::` at this indentation introduces a literal block
+  let literalIndent: number | undefined;
+  let comment: { meta: MetaComment; indent: number; } | undefined;
+  // The previous two lines, for section titles
+  let previous: SourceLine | undefined;
+  let beforePrevious: SourceLine | undefined;
+  const styles: Array<string> = [];
+  const headings: Array<Heading> = [];
+  const ids = new Map<string, number>();
+  const contentStart = frontMatterLength(source);
+
+  const lines = splitLines(source);
+
+  // A byte order mark is not part of the first line's content
+  if (lines[0]?.text.startsWith(BOM)) {
+    lines[0] = { ...lines[0], text: lines[0].text.substring(BOM.length), start: BOM.length };
+  }
+
+  for (const line of lines) {
+    if (line.start < contentStart) {
+      continue;
+    }
+
+    const blank = line.text.trim() === "";
+    const indent = indentation(line.text);
+
+    if (current) {
+      const option = current.options && !blank && indent > current.indent ? line.text.match(OPTION) : null;
+      if (option) {
+        current.block.infoEnd = line.start + line.text.trimEnd().length;
+        current.block.openEnd = current.block.infoEnd;
+        current.block.info = source.substring(current.block.infoStart, current.block.infoEnd);
+        current.block.codeStart = line.end;
+        current.block.codeEnd = line.end;
+        continue;
+      }
+      current.options = false;
+
+      if (blank) {
+        current.blanks.push(line);
+        continue;
+      }
+      if (indent > current.indent) {
+        current.content.push(...(current.content.length > 0 ? current.blanks : []), line);
+        current.blanks = [];
+        continue;
+      }
+
+      blocks.push(closeDirective(current));
+      current = undefined;
+    }
+
+    if (skipIndent !== undefined) {
+      if (blank || indent > skipIndent) {
+        continue;
+      }
+      skipIndent = undefined;
+    }
+
+    if (literalIndent !== undefined) {
+      // The literal block starts after a blank line
+      skipIndent = blank ? literalIndent : undefined;
+      literalIndent = undefined;
+    }
+
+    if (blank) {
+      comment = undefined;
+      beforePrevious = previous;
+      previous = undefined;
+      continue;
+    }
+
+    const directive = line.text.match(CODE_DIRECTIVE);
+    if (directive) {
+      const dirIndent = directive[1] || "";
+      const infoStart = line.start + directive[0].length + indentation(line.text.substring(directive[0].length));
+      const infoEnd = Math.max(infoStart, line.start + line.text.trimEnd().length);
+
+      current = {
+        indent: dirIndent.length,
+        options: true,
+        content: [],
+        blanks: [],
+        block: {
+          kind: "fenced",
+          char: "",
+          length: 0,
+          prefix: dirIndent,
+          indent: "   ",
+          info: source.substring(infoStart, infoEnd),
+          infoStart,
+          infoEnd,
+          openStart: line.start,
+          blockStart: line.start + dirIndent.length,
+          openEnd: infoEnd,
+          codeStart: line.end,
+          codeEnd: line.end,
+          lines: [],
+          closed: true,
+          strayFences: [],
+          comment: comment?.indent === dirIndent.length ? comment.meta : undefined,
+          headings: headings.map(heading => heading.text),
+          slug: headings.at(-1)?.slug || "",
+        },
+      };
+      comment = undefined;
+      previous = undefined;
+      continue;
+    }
+
+    const metaComment = line.text.match(META_COMMENT);
+    if (metaComment) {
+      const start = line.start + (metaComment[1] || "").length;
+      const text = metaComment[2] || "";
+      comment = { meta: { text: text.trim(), start, end: start + text.length }, indent };
+      skipIndent = indent;
+      previous = undefined;
+      continue;
+    }
+    comment = undefined;
+
+    // Comments, targets and footnotes: their bodies are not searched
+    const markup = line.text.match(EXPLICIT_MARKUP);
+    if (markup && !OTHER_DIRECTIVE.test(line.text)) {
+      skipIndent = indent;
+      previous = undefined;
+      continue;
+    }
+
+    // A title is a line of text at the margin, underlined (and maybe overlined) with punctuation
+    const adornment = line.text.match(ADORNMENT);
+    const title = previous?.text.trim() || "";
+    if (adornment && previous && indentation(previous.text) === 0 && indent === 0 && !ADORNMENT.test(previous.text)
+      && (line.text.trim().length >= title.length || line.text.trim().length >= 4)) {
+      const char = adornment[1] || "";
+      const style = beforePrevious?.text.trim() === line.text.trim() ? `${char}${char}` : char;
+      if (!styles.includes(style)) {
+        styles.push(style);
+      }
+      const level = styles.indexOf(style) + 1;
+
+      while ((headings.at(-1)?.level ?? 0) >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: title, slug: sectionId(title, ids) });
+      beforePrevious = previous;
+      previous = undefined;
+      continue;
+    }
+
+    if (line.text.trimEnd().endsWith("::") && !markup) {
+      literalIndent = indent;
+    }
+
+    beforePrevious = previous;
+    previous = line;
+  }
+
+  // A directive at the end of the document runs to the end
+  if (current) {
+    blocks.push(closeDirective(current));
+  }
+
+  return blocks;
+}
@@ -0,0 +1,710 @@
+/**
+ * Code block scanner shared by parse(), walk() and updateInfoStrings()
+ * Follows the CommonMark rules for fenced (and optionally indented) code blocks,
+ * including blocks nested in blockquotes and list items
+ */
+
+import { BOM } from "./eol.ts";
+import { frontMatterLength } from "./frontmatter.ts";
+import { feedMdx } from "./mdx.ts";
+import type { MdxState } from "./mdx.ts";
+import type { Point, SyntaxOptions } from "./types.ts";
+
+/**
+ * A single line of the source with its offsets
+ */
+export interface SourceLine {
+  /** Line content without the line ending */
+  text: string;
+  /** Offset of the first character of the line */
+  start: number;
+  /** Offset just past the line ending (start of the next line) */
+  end: number;
+  /** The line ending itself ("\n", "\r\n" or "" for the last line) */
+  eol: string;
+}
+
+/**
+ * A code block as found in the source
+ */
+export interface ScannedBlock {
+  /** Fenced (``` or ~~~, or a delimited AsciiDoc block) or indented (4-space) code block */
+  kind: "fenced" | "indented";
+  /** Fence character: ` or ~ (- or . for AsciiDoc, empty for indented blocks) */
+  char: string;
+  /** Number of fence characters in the opening fence */
+  length: number;
+  /** Container prefix (quote markers and list indentation) re-applied to each code line */
+  prefix: string;
+  /** Indentation of the opening fence (or the 4 spaces of an indented block), removed from each code line */
+  indent: string;
+  /** Language given by the document rather than the info string (a notebook's kernel) */
+  lang?: string;
+  /** Raw info string (trimmed, always empty for indented blocks) */
+  info: string;
+  /** Offsets of the info string within the opening fence line (where the code starts for indented blocks) */
+  infoStart: number;
+  infoEnd: number;
+  /** Offset where the opening fence line (or first line of an indented block) starts */
+  openStart: number;
+  /** Offset on that line just after the container prefix */
+  blockStart: number;
+  /** Offset of the end of the opening fence line (before its line ending) */
+  openEnd: number;
+  /** Offset where the code content starts */
+  codeStart: number;
+  /** Offset where the code content ends (start of the closing fence, or end of source) */
+  codeEnd: number;
+  /** Code lines (including line endings) with the fence indentation removed */
+  lines: Array<string>;
+  /** Whether a closing fence was found (always true for indented blocks) */
+  closed: boolean;
+  /** Offsets of the closing fence (after the container prefix, before the line ending) */
+  closeStart?: number;
+  closeEnd?: number;
+  /** Code lines that would close the block if not for trailing text (offsets after the container prefix) */
+  strayFences: Array<{ start: number; end: number; }>;
+  /** `<!-- mdcode ... -->` (or MDX `{/* mdcode ... *\/}`, AsciiDoc `// mdcode ...`) directive on the line right before the block */
+  comment?: MetaComment;
+  /** Texts of the headings enclosing the block, outermost first */
+  headings: Array<string>;
+  /** Anchor slug of the innermost enclosing heading ("" before the first heading) */
+  slug: string;
+}
+
+/**
+ * Body of an `<!-- mdcode ... -->` (or `{/* mdcode ... *\/}`) metadata comment
+ */
+export interface MetaComment {
+  /** Text between `mdcode` and the end of the comment (trimmed) */
+  text: string;
+  /** Offsets of the untrimmed text between `mdcode` and the end of the comment */
+  start: number;
+  end: number;
+}
+
+
+/**
+ * Scans a document one line at a time
+ */
+export interface Scanner {
+  /** Scan the next line; returns the blocks it completes */
+  feed: (line: SourceLine) => Array<ScannedBlock>;
+  /** Finish the document; returns the block still open, if any */
+  end: () => Array<ScannedBlock>;
+  /** Offset where the block still open starts, from its metadata comment (its lines may still change it) */
+  pending: () => number | undefined;
+}
+
+/**
+ * A heading enclosing the current position
+ */
+interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+/**
+ * A heading of a document and where it ends
+ */
+export interface SourceHeading extends Heading {
+  /** Offset just past the heading's last line (after its line ending) */
+  end: number;
+  /** Container prefix of the heading's lines */
+  prefix: string;
+}
+
+/**
+ * An open container block: a blockquote or a list item with its content width
+ */
+type Container = { kind: "quote"; } | { kind: "item"; width: number; };
+
+/**
+ * Result of matching the open containers against a line
+ */
+interface ContainerMatch {
+  /** Number of containers continued by the line */
+  matched: number;
+  /** Line content after the container prefixes */
+  rest: string;
+  /** Continuation prefix for the matched containers */
+  prefix: string;
+  /** Spaces at the start of `rest` that stand in for the remaining columns of a partly removed tab */
+  padding: number;
+}
+
+/**
+ * Line content with columns of indentation removed
+ */
+interface Unindented {
+  rest: string;
+  /** Number of characters removed from the start of the content */
+  consumed: number;
+  /** Spaces at the start of `rest` for the remaining columns of a partly removed tab */
+  padding: number;
+}
+
+const OPENING_FENCE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const CLOSING_FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+const QUOTE_MARKER = /^ {0,3}>/;
+const LIST_MARKER = /^ {0,3}(?:[-+*]|\d{1,9}[.)])(?=[ \t]|$)/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const INDENTED_CODE = "    ";
+const TAB_STOP = 4;
+const META_COMMENT = /^( {0,3}<!--\s*mdcode)((?:\s.*?)?)-->\s*$/;
+// MDX allows fences at any indentation (it has no indented code blocks)
+const MDX_OPENING_FENCE = /^( *)(`{3,}|~{3,})(.*)$/;
+const MDX_CLOSING_FENCE = /^ *(`{3,}|~{3,})[ \t]*$/;
+const MDX_META_COMMENT = /^( *\{\/\*\s*mdcode)((?:\s.*?)?)\*\/\}\s*$/;
+const MDX_ESM = /^(?:import|export)\s/;
+const MDX_FLOW = /^ *[<{]/;
+
+/**
+ * Split source into lines, keeping track of offsets
+ */
+export function splitLines(source: string): Array<SourceLine> {
+  const lines: Array<SourceLine> = [];
+  const pattern = /\r?\n/g;
+  let start = 0;
+  let match;
+
+  while ((match = pattern.exec(source)) !== null) {
+    lines.push({ text: source.substring(start, match.index), start, end: match.index + match[0].length, eol: match[0] });
+    start = match.index + match[0].length;
+  }
+
+  if (start < source.length) {
+    lines.push({ text: source.substring(start), start, end: source.length, eol: "" });
+  }
+
+  return lines;
+}
+
+/**
+ * Get the plain text of a heading: links become their text, code and emphasis markers are dropped
+ */
+function headingText(raw: string): string {
+  return raw
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[`*]/g, "")
+    .trim();
+}
+
+/**
+ * Build a GitHub-style anchor slug, adding -1, -2, ... for repeated headings
+ */
+export function slugify(text: string, seen: Map<string, number>): string {
+  const slug = text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "").replace(/ /g, "-");
+  const count = seen.get(slug) || 0;
+  seen.set(slug, count + 1);
+  return count > 0 ? `${slug}-${count}` : slug;
+}
+
+/**
+ * Remove up to `width` leading spaces from a code line
+ */
+function removeIndent(line: string, width: number): string {
+  let i = 0;
+  while (i < width && line[i] === " ") {
+    i++;
+  }
+  return line.substring(i);
+}
+
+/**
+ * Remove `width` columns of leading whitespace from text that starts at `column`.
+ * Tabs advance to the next multiple of 4 columns, as in CommonMark; the remaining
+ * columns of a tab that is only partly removed are left as spaces.
+ * @returns Undefined if the text is indented less than `width`
+ */
+function removeColumns(text: string, column: number, width: number): Unindented | undefined {
+  let i = 0;
+  let end = column;
+
+  while (end < column + width) {
+    if (text[i] === " ") {
+      end++;
+    }
+    else if (text[i] === "\t") {
+      end += TAB_STOP - end % TAB_STOP;
+    }
+    else {
+      return undefined;
+    }
+    i++;
+  }
+
+  const padding = end - column - width;
+  return { rest: " ".repeat(padding) + text.substring(i), consumed: i, padding };
+}
+
+/**
+ * Number of columns taken by the leading whitespace of text that starts at `column`
+ */
+function indentColumns(text: string, column: number): number {
+  let end = column;
+
+  for (const char of text) {
+    if (char === " ") {
+      end++;
+    }
+    else if (char === "\t") {
+      end += TAB_STOP - end % TAB_STOP;
+    }
+    else {
+      break;
+    }
+  }
+
+  return end - column;
+}
+
+/**
+ * Move the start of the line content into the container prefix, written there as `prefix`
+ */
+function advance(match: ContainerMatch, unindented: Unindented, prefix: string): void {
+  match.rest = unindented.rest;
+  match.padding = unindented.padding || Math.max(0, match.padding - unindented.consumed);
+  match.prefix += prefix;
+}
+
+/**
+ * Continue or open a blockquote on a `>` marker, whose optional space may be the first column of a tab
+ * @returns Whether the line starts with a marker
+ */
+function matchQuote(match: ContainerMatch): boolean {
+  const marker = match.rest.match(QUOTE_MARKER)?.[0];
+  if (marker === undefined) {
+    return false;
+  }
+
+  const after = match.rest.substring(marker.length);
+  const space = removeColumns(after, match.prefix.length + marker.length, 1);
+  advance(match, {
+    rest: space?.rest ?? after,
+    consumed: marker.length + (space?.consumed ?? 0),
+    padding: space?.padding ?? 0,
+  }, space ? `${marker} ` : marker);
+  return true;
+}
+
+/**
+ * Match the open containers against a line.
+ * Blockquotes continue on a `>` marker, list items on sufficient indentation or a blank line.
+ */
+function matchContainers(text: string, containers: Array<Container>): ContainerMatch {
+  const match: ContainerMatch = { matched: 0, rest: text, prefix: "", padding: 0 };
+
+  for (const container of containers) {
+    if (container.kind === "quote") {
+      if (!matchQuote(match)) {
+        break;
+      }
+    }
+    else if (match.rest.trim() === "") {
+      match.rest = "";
+      match.padding = 0;
+    }
+    else {
+      const unindented = removeColumns(match.rest, match.prefix.length, container.width);
+      if (!unindented) {
+        break;
+      }
+      advance(match, unindented, " ".repeat(container.width));
+    }
+    match.matched++;
+  }
+
+  return match;
+}
+
+/**
+ * Open new blockquotes and list items at the start of a line
+ * @returns Whether any container was opened
+ */
+function openContainers(match: ContainerMatch, containers: Array<Container>): boolean {
+  const depth = containers.length;
+
+  for (;;) {
+    if (matchQuote(match)) {
+      containers.push({ kind: "quote" });
+      continue;
+    }
+
+    const marker = THEMATIC_BREAK.test(match.rest) ? undefined : match.rest.match(LIST_MARKER)?.[0];
+    if (marker !== undefined) {
+      const after = match.rest.substring(marker.length);
+      const column = match.prefix.length + marker.length;
+      const spaces = indentColumns(after, column);
+      const blank = after.trim() === "";
+      // Content starts one column after the marker when the item is blank or starts with indented code
+      const width = marker.length + (blank || spaces > 4 ? 1 : spaces);
+      const content = blank ? undefined : removeColumns(after, column, width - marker.length);
+
+      containers.push({ kind: "item", width });
+      if (content) {
+        advance(match, { ...content, consumed: marker.length + content.consumed }, " ".repeat(width));
+      }
+      else {
+        match.rest = "";
+        match.padding = 0;
+        match.prefix += " ".repeat(width);
+      }
+      continue;
+    }
+
+    return containers.length > depth;
+  }
+}
+
+/**
+ * Offset in the source where a suffix of the line content after the container prefixes starts
+ * (spaces standing in for a partly removed tab are placed just after the tab)
+ */
+function suffixStart(line: SourceLine, match: ContainerMatch, suffix: string): number {
+  return line.start + line.text.length - Math.min(suffix.length, match.rest.length - match.padding);
+}
+
+/**
+ * Create a scanner for the code blocks of markdown source, fed one line at a time.
+ *
+ * Both ` and ~ fences of any length >= 3 are recognised. A closing fence must use
+ * the same character and be at least as long as the opening fence. A fence that is
+ * never closed runs to the end of its container (or the end of the document).
+ *
+ * Blocks inside blockquotes and list items are found too; the container prefix is
+ * stripped from each code line and kept in `prefix` so rewrites can restore it.
+ *
+ * Indented code blocks are only reported with `indented: true`. As in CommonMark,
+ * they cannot interrupt a paragraph and do not include trailing blank lines.
+ *
+ * An `<!-- mdcode key=value -->` comment on the line right before a block is
+ * attached to it as `comment`.
+ *
+ * HTML blocks are deliberately not recognised: fences inside HTML comments or
+ * <script> elements are still reported, so hidden blocks keep working.
+ *
+ * With `mdx: true`, fences may be indented any amount (e.g. inside `<Tabs>`),
+ * fences inside JSX tags, `{...}` expressions and ESM `import`/`export` blocks are
+ * ignored, indented code blocks are never reported and `{/* mdcode ... *\/}`
+ * comments carry metadata.
+ */
+export function createScanner(options: SyntaxOptions = {}, onHeading?: (heading: SourceHeading) => void): Scanner {
+  const containers: Array<Container> = [];
+  let current: ScannedBlock | undefined;
+  // Blank lines seen inside an indented block, kept only if more code follows
+  let pendingBlanks: Array<string> = [];
+  // Whether the previous line was paragraph text (indented code cannot interrupt it)
+  let paragraph = false;
+  // Metadata comment on the previous line, and where that line starts
+  let comment: MetaComment | undefined;
+  let commentLine = 0;
+  // Where the block still open starts (the line of its metadata comment, if it has one)
+  let currentStart = 0;
+  // Text of the current paragraph, which becomes the heading on a setext underline
+  let paragraphText: Array<string> = [];
+  // Enclosing headings and the slugs used so far
+  const headings: Array<Heading> = [];
+  const slugs = new Map<string, number>();
+
+  const enterHeading = (level: number, raw: string, line: SourceLine, prefix: string): void => {
+    while ((headings.at(-1)?.level ?? 0) >= level) {
+      headings.pop();
+    }
+    const text = headingText(raw);
+    const heading = { level, text, slug: slugify(text, slugs) };
+    headings.push(heading);
+    onHeading?.({ ...heading, end: line.end, prefix });
+  };
+
+  // MDX constructs still open at the end of the previous line, and whether an ESM block is open
+  const mdx: MdxState = { stack: [] };
+  let esm = false;
+  const openingFence = options.mdx ? MDX_OPENING_FENCE : OPENING_FENCE;
+  const closingFence = options.mdx ? MDX_CLOSING_FENCE : CLOSING_FENCE;
+
+  const feed = (sourceLine: SourceLine): Array<ScannedBlock> => {
+    const completed: Array<ScannedBlock> = [];
+    // A byte order mark is not part of the first line's content
+    const line = sourceLine.start === 0 && sourceLine.text.startsWith(BOM)
+      ? { ...sourceLine, text: sourceLine.text.substring(BOM.length), start: BOM.length }
+      : sourceLine;
+
+    // Lines inside an MDX expression, tag or ESM block are not markdown
+    if (!current && (mdx.stack.length > 0 || esm)) {
+      feedMdx(mdx, line.text);
+      esm = esm && line.text.trim() !== "";
+      paragraph = false;
+      comment = undefined;
+      return completed;
+    }
+
+    const match = matchContainers(line.text, containers);
+    const blank = match.rest.trim() === "";
+
+    // A line that does not continue the containers ends them, and any block inside
+    if (match.matched < containers.length) {
+      containers.length = match.matched;
+      comment = undefined;
+      if (current) {
+        completed.push(current);
+        current = undefined;
+      }
+    }
+
+    if (current?.kind === "fenced") {
+      const closing = match.rest.match(closingFence);
+      const fence = closing?.[1] || "";
+
+      if (closing && fence[0] === current.char && fence.length >= current.length) {
+        current.codeEnd = line.start;
+        current.closed = true;
+        current.closeStart = suffixStart(line, match, match.rest);
+        current.closeEnd = line.start + line.text.length;
+        completed.push(current);
+        current = undefined;
+        return completed;
+      }
+
+      // A fence with trailing text (usually the next block's opening fence) is just code
+      const fenceLike = match.rest.match(openingFence)?.[2] || "";
+      if (fenceLike[0] === current.char && fenceLike.length >= current.length) {
+        current.strayFences.push({ start: suffixStart(line, match, match.rest), end: line.start + line.text.length });
+      }
+
+      current.lines.push(removeIndent(match.rest, current.indent.length) + line.eol);
+      current.codeEnd = line.end;
+      return completed;
+    }
+
+    if (current?.kind === "indented") {
+      if (blank) {
+        pendingBlanks.push(removeIndent(match.rest, INDENTED_CODE.length) + line.eol);
+        return completed;
+      }
+      if (match.rest.startsWith(INDENTED_CODE)) {
+        current.lines.push(...pendingBlanks, match.rest.substring(INDENTED_CODE.length) + line.eol);
+        current.codeEnd = line.end;
+        pendingBlanks = [];
+        return completed;
+      }
+      completed.push(current);
+      current = undefined;
+    }
+
+    if (blank) {
+      paragraph = false;
+      comment = undefined;
+      return completed;
+    }
+
+    if (openContainers(match, containers)) {
+      paragraph = false;
+      comment = undefined;
+      if (match.rest.trim() === "") {
+        return completed;
+      }
+    }
+
+    const blockStart = suffixStart(line, match, match.rest);
+
+    const directive = match.rest.match(META_COMMENT) || (options.mdx ? match.rest.match(MDX_META_COMMENT) : null);
+    if (directive) {
+      const start = suffixStart(line, match, match.rest.substring((directive[1] || "").length));
+      const text = directive[2] || "";
+      comment = { text: text.trim(), start, end: start + text.length };
+      commentLine = line.start;
+      paragraph = false;
+      return completed;
+    }
+
+    if (options.mdx && !paragraph && containers.length === 0 && MDX_ESM.test(match.rest)) {
+      esm = true;
+      comment = undefined;
+      return completed;
+    }
+
+    // The first line is rewritten with the continuation prefix, so a list marker on it would be lost
+    if (options.indented && !options.mdx && !paragraph && match.rest.startsWith(INDENTED_CODE) && line.text.startsWith(match.prefix)) {
+      current = {
+        kind: "indented",
+        char: "",
+        length: 0,
+        prefix: match.prefix,
+        indent: INDENTED_CODE,
+        info: "",
+        infoStart: blockStart,
+        infoEnd: blockStart,
+        openStart: line.start,
+        blockStart,
+        openEnd: line.start + line.text.length,
+        codeStart: line.start,
+        codeEnd: line.end,
+        lines: [ match.rest.substring(INDENTED_CODE.length) + line.eol ],
+        closed: true,
+        strayFences: [],
+        comment,
+        headings: headings.map(heading => heading.text),
+        slug: headings.at(-1)?.slug || "",
+      };
+      currentStart = comment ? commentLine : line.start;
+      pendingBlanks = [];
+      comment = undefined;
+      return completed;
+    }
+
+    const opening = match.rest.match(openingFence);
+
+    // Info strings of backtick fences may not contain backticks
+    if (!opening || (opening[2]?.[0] === "`" && opening[3]?.includes("`"))) {
+      const atx = match.rest.match(ATX_HEADING);
+
+      if (options.mdx) {
+        feedMdx(mdx, match.rest);
+      }
+
+      if (options.mdx && MDX_FLOW.test(match.rest)) {
+        // JSX elements and expressions on their own line are not paragraph text
+        paragraph = false;
+      }
+      else if (paragraph && SETEXT_UNDERLINE.test(match.rest)) {
+        enterHeading(match.rest.trim().startsWith("=") ? 1 : 2, paragraphText.join(" "), line, match.prefix);
+        paragraph = false;
+      }
+      else if (atx) {
+        // Drop the optional closing sequence of #s
+        enterHeading(atx[1]?.length || 1, match.rest.substring(atx[0].length).replace(/(?:^|[ \t]+)#+[ \t]*$/, ""), line, match.prefix);
+        paragraph = false;
+      }
+      else if (THEMATIC_BREAK.test(match.rest) || (!paragraph && match.rest.startsWith(INDENTED_CODE))) {
+        // Indented code is not paragraph text, even when it is not reported
+        paragraph = false;
+      }
+      else {
+        paragraphText = paragraph ? [ ...paragraphText, match.rest.trim() ] : [ match.rest.trim() ];
+        paragraph = true;
+      }
+
+      comment = undefined;
+      return completed;
+    }
+
+    const indent = opening[1] || "";
+    const fence = opening[2] || "";
+    const rest = opening[3] || "";
+    const info = rest.trim();
+    const infoStart = suffixStart(line, match, rest.trimStart());
+
+    paragraph = false;
+    current = {
+      kind: "fenced",
+      char: fence[0] || "",
+      length: fence.length,
+      prefix: match.prefix,
+      indent,
+      info,
+      infoStart,
+      infoEnd: infoStart + info.length,
+      openStart: line.start,
+      blockStart,
+      openEnd: line.start + line.text.length,
+      codeStart: line.end,
+      codeEnd: line.end,
+      lines: [],
+      closed: false,
+      strayFences: [],
+      comment,
+      headings: headings.map(heading => heading.text),
+      slug: headings.at(-1)?.slug || "",
+    };
+    currentStart = comment ? commentLine : line.start;
+    comment = undefined;
+
+    return completed;
+  };
+
+  return {
+    feed,
+    // Unclosed fence (or an indented block) runs to the end of the document
+    end: () => current ? [ current ] : [],
+    // A metadata comment is held with the block it may belong to
+    pending: () => current ? currentStart : comment ? commentLine : undefined,
+  };
+}
+
+/**
+ * Scan markdown source for code blocks (see `createScanner`), skipping front matter
+ */
+export function scan(source: string, options: SyntaxOptions = {}): Array<ScannedBlock> {
+  const scanner = createScanner(options);
+  // Front matter is not markdown
+  const contentStart = frontMatterLength(source);
+  const blocks = splitLines(source).filter(line => line.start >= contentStart).flatMap(line => scanner.feed(line));
+
+  return [ ...blocks, ...scanner.end() ];
+}
+
+/**
+ * Find the headings of markdown source, in document order
+ */
+export function scanHeadings(source: string, options: SyntaxOptions = {}): Array<SourceHeading> {
+  const headings: Array<SourceHeading> = [];
+  const scanner = createScanner(options, heading => headings.push(heading));
+  const contentStart = frontMatterLength(source);
+
+  for (const line of splitLines(source)) {
+    if (line.start >= contentStart) {
+      scanner.feed(line);
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Create a function that converts character offsets to 1-based line/column points
+ */
+export function createLocator(source: string): (offset: number) => Point {
+  const lineStarts = [ 0 ];
+  const pattern = /\r?\n/g;
+  let match;
+
+  while ((match = pattern.exec(source)) !== null) {
+    lineStarts.push(match.index + match[0].length);
+  }
+
+  return (offset: number): Point => {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((lineStarts[mid] ?? 0) <= offset) {
+        low = mid;
+      }
+      else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - (lineStarts[low] ?? 0) + 1, offset };
+  };
+}
+
+/**
+ * Get the code content of a block, without the final line ending
+ * (to match remark-parse behavior)
+ */
+export function blockCode(block: ScannedBlock): string {
+  const code = block.lines.join("");
+
+  if (code.endsWith("\r\n")) {
+    return code.slice(0, -2);
+  }
+  if (code.endsWith("\n")) {
+    return code.slice(0, -1);
+  }
+  return code;
+}
@@ -0,0 +1,149 @@
+/* eslint-disable @typescript-eslint/no-floating-promises */
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { Writable } from "node:stream";
+
+import { parse, parseStream, walk, walkStream } from "./parser.ts";
+import { splitLines } from "./scanner.ts";
+import { readLines } from "./stream.ts";
+import type { Block } from "./types.ts";
+
+const document = [
+  "---",
+  "mdcode:",
+  "  base: src/",
+  "---",
+  "# Guide",
+  "",
+  "```js file=app.js",
+  "old();",
+  "```",
+  "",
+  "- item",
+  "",
+  "  ```sh",
+  "  ls — ✓",
+  "  ```",
+  "",
+  "## Notes",
+  "",
+  "    indented",
+  "",
+  "```py",
+  "unclosed()",
+  "",
+].join("\r\n");
+
+// Split text into UTF-8 chunks of `size` bytes (splitting characters and line endings)
+async function* chunks(text: string, size: number): AsyncGenerator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<Array<T>> {
+  const result: Array<T> = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
+// A writable stream that keeps what is written to it
+function sink(): { output: Writable; text: () => string; } {
+  const written: Array<string> = [];
+  const output = new Writable({
+    decodeStrings: false,
+    write: (chunk: string, _encoding, callback) => {
+      written.push(chunk);
+      callback();
+    },
+  });
+  return { output, text: () => written.join("") };
+}
+
+describe("streaming", () => {
+  it("splits chunks into lines like splitLines", async () => {
+    for (const size of [ 1, 2, 5 ]) {
+      assert.deepEqual(await collect(readLines(chunks(document, size))),splitLines(document));
+    }
+    assert.deepEqual(await collect(readLines(ReadableStream.from([ "a\r", "\nb" ]))),splitLines("a\r\nb"));
+  });
+
+  it("parses a stream into the blocks parse() finds", async () => {
+    for (const size of [ 1, 3, 64 ]) {
+      const blocks = await collect(parseStream({ input: chunks(document, size), indented: true }));
+      assert.deepEqual(blocks,parse({ source: document, indented: true }));
+    }
+    assert.equal(parse({ source: document })[0]?.meta.file,"src/app.js");
+
+    // A thematic break is not front matter without a closing line
+    const source = "---\n\n```js\nrun();\n```\n";
+    assert.deepEqual(await collect(parseStream({ input: chunks(source, 4), filter: { lang: "js" } })),parse({ source }));
+  });
+
+  it("yields blocks before reading the rest of the stream", async () => {
+    let read = 0;
+    async function* input(): AsyncGenerator<string> {
+      for (const chunk of [ "```js\none();\n```\n", "```js\ntwo();\n```\n" ]) {
+        read++;
+        yield chunk;
+      }
+    }
+
+    const reads: Array<number> = [];
+    for await (const block of parseStream({ input: input() })) {
+      assert.ok(block.code.endsWith("();"));
+      reads.push(read);
+    }
+    assert.deepEqual(reads,[ 1, 2 ]);
+  });
+
+  it("walks a stream into the document walk() writes", async () => {
+    const walker = (block: Block) => block.lang === "sh" ? null : { ...block, code: block.code.toUpperCase() };
+    const { output, text } = sink();
+
+    const result = await walkStream({ input: chunks(document, 7), output, walker, indented: true });
+    const expected = await walk({ source: document, walker, indented: true });
+
+    assert.equal(text(),expected.source);
+    assert.deepEqual(result,{ count: 4, modified: true });
+
+    const unchanged = sink();
+    assert.deepEqual(await walkStream({ input: chunks(document, 7), output: unchanged.output, walker: block => block }),{ count: 3, modified: false });
+    assert.equal(unchanged.text(),document);
+  });
+
+  it("writes a walker's language and metadata changes as walk() does", async () => {
+    const source = "# Title\n\n<!-- mdcode region=main note=old -->\n```js file=a.js\none();\n```\n\n    indented();\n\n```sh\nls\n```\n";
+    const walker = (block: Block) => {
+      if (block.lang === "js") {
+        const { note: _note, region: _region, ...meta } = block.meta;
+        return { ...block, lang: "ts", meta: { ...meta, file: "a.ts" } };
+      }
+      return block.lang ? block : { ...block, lang: "js", meta: { file: "b.js" } };
+    };
+    const { output, text } = sink();
+
+    const result = await walkStream({ input: chunks(source, 5), output, walker, indented: true });
+    const expected = await walk({ source, walker, indented: true });
+
+    assert.equal(text(),expected.source);
+    assert.equal(text(),"# Title\n\n```ts file=a.ts\none();\n```\n\n```js file=b.js\nindented();\n```\n\n```sh\nls\n```\n");
+    assert.deepEqual(result,{ count: 3, modified: true });
+  });
+
+  it("writes the document as blocks complete", async () => {
+    const { output, text } = sink();
+    async function* input(): AsyncGenerator<string> {
+      yield "```js\none();\n```\n\n```js\n";
+      // Only the block still open is held back
+      assert.equal(text(),"```js\nONE();\n```\n\n");
+      yield "two();\n```\n";
+    }
+
+    await walkStream({ input: input(), output, walker: block => ({ ...block, code: block.code.toUpperCase() }) });
+    assert.equal(text(),"```js\nONE();\n```\n\n```js\nTWO();\n```\n");
+  });
+});
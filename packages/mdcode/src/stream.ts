@@ -0,0 +1,91 @@
+/**
+ * Reading documents in chunks: decoding, splitting into lines and locating
+ * offsets without holding the whole document
+ */
+
+import type { SourceLine } from "./scanner.ts";
+import type { Point, StreamInput } from "./types.ts";
+
+/**
+ * Locates offsets in the lines added so far, keeping only the ones still needed
+ */
+export interface StreamLocator {
+  /** Add the next line, by the offset it starts at */
+  add: (start: number) => void;
+  /** Forget the lines before the one holding `offset` */
+  release: (offset: number) => void;
+  /** Convert an offset (in a line not yet released) to a 1-based line/column point */
+  locate: (offset: number) => Point;
+}
+
+/**
+ * Split a stream of chunks into lines with their offsets, as `splitLines` does for a string.
+ * Bytes are decoded as UTF-8; a byte order mark is kept, as when reading a file as a string.
+ */
+export async function* readLines(input: StreamInput): AsyncGenerator<SourceLine> {
+  const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+  // Text after the last line ending, and its offset
+  let rest = "";
+  let offset = 0;
+
+  for await (const chunk of input) {
+    rest += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+    let start = 0;
+    let newline;
+    while ((newline = rest.indexOf("\n", start)) >= 0) {
+      const eol = rest[newline - 1] === "\r" ? "\r\n" : "\n";
+      const end = newline + 1;
+      yield { text: rest.substring(start, end - eol.length), start: offset + start, end: offset + end, eol };
+      start = end;
+    }
+
+    rest = rest.substring(start);
+    offset += start;
+  }
+
+  rest += decoder.decode();
+  if (rest) {
+    yield { text: rest, start: offset, end: offset + rest.length, eol: "" };
+  }
+}
+
+/**
+ * Create a locator for a document read line by line
+ */
+export function createStreamLocator(): StreamLocator {
+  const lineStarts: Array<number> = [];
+  // Line number of lineStarts[0]
+  let firstLine = 1;
+
+  // Index of the last line starting at or before the offset
+  const find = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((lineStarts[mid] ?? 0) <= offset) {
+        low = mid;
+      }
+      else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  };
+
+  return {
+    add: start => {
+      lineStarts.push(start);
+    },
+    release: offset => {
+      const index = find(offset);
+      lineStarts.splice(0, index);
+      firstLine += index;
+    },
+    locate: offset => {
+      const index = find(offset);
+      return { line: firstLine + index, column: offset - (lineStarts[index] ?? 0) + 1, offset };
+    },
+  };
+}
@@ -1,3 +1,7 @@
+import type { Writable } from "node:stream";
+
+import type { Document } from "./document.ts";
+
 /**
  * Represents a code block extracted from markdown
  */
@@ -8,18 +12,84 @@ export interface Block {
   meta: Record<string, string>;
   /** The actual code content */
   code: string;
-  /** Optional position information in the source markdown (character offsets) */
-  position?: {
-    start: number;
-    end: number;
-  };
+  /** First-line metadata comment (e.g. `// file: app.ts`), when recognised; still part of `code` */
+  header?: string;
+  /** Metadata keys whose values came from the document's front matter defaults */
+  inherited?: Array<string>;
+  /** Headings of the sections enclosing the block, outermost first (e.g. ["Usage", "Advanced"]) */
+  headings?: Array<string>;
+  /** Anchor slug of the innermost enclosing heading (e.g. "advanced"), "" before the first heading */
+  slug?: string;
+  /** Optional position information in the source markdown */
+  position?: BlockPosition;
 }
 
+/**
+ * A point in the source: 1-based line and column, plus the character offset
+ */
+export type Point = {
+  line: number;
+  column: number;
+  offset: number;
+};
+
+/**
+ * A range in the source; `end` is the point just after the last character
+ */
+export type Range = {
+  start: Point;
+  end: Point;
+};
+
+/**
+ * Where a block is in the source markdown
+ */
+export type BlockPosition = {
+  /** Character offset where the code body starts */
+  start: number;
+  /** Character offset where the code body ends */
+  end: number;
+  /** The opening fence line (absent for indented blocks) */
+  opening?: Range;
+  /** The info string (absent for indented blocks) */
+  info?: Range;
+  /** The code body */
+  code?: Range;
+  /** The closing fence (absent for indented blocks and unclosed fences) */
+  closing?: Range;
+};
+
+/**
+ * Kinds of problems found while parsing
+ */
+export type DiagnosticCode = "unclosed-fence" | "fence-trailing-text" | "duplicate-meta" | "empty-file";
+
+/**
+ * A problem found in the markdown source
+ */
+export type Diagnostic = {
+  code: DiagnosticCode;
+  message: string;
+  /** Where the problem is */
+  position: Range;
+};
+
+/**
+ * The document a walker is called for, to make other edits than the block's code
+ */
+export type WalkContext = {
+  /** The document being walked (edits to it are kept when the walk returns) */
+  document: Document;
+  /** Index of the block in the document */
+  index: number;
+};
+
 /**
  * Function that processes a block and optionally transforms it.
- * Return null to remove the block, or a modified block to replace it.
+ * Return null to empty the block, or a block with new code, language or metadata
+ * (keys it leaves out are removed) to change it.
  */
-export type WalkerFunction = (block: Block) => Block | null | Promise<Block | null>;
+export type WalkerFunction = (block: Block, context?: WalkContext) => Block | null | Promise<Block | null>;
 
 /**
  * Metadata for transformer functions
@@ -41,20 +111,123 @@ export type FilterOptions = TransformerMeta & {
   meta?: Record<string, string>;
 };
 
+/**
+ * Document formats that code blocks can be read from
+ */
+export type DocumentFormat = "markdown" | "asciidoc" | "rst" | "org" | "ipynb" | "jsdoc" | "python" | "html";
+
+/**
+ * Options controlling which kinds of code blocks are recognised
+ */
+export type SyntaxOptions = {
+  /** Format of the document (default: "markdown") */
+  format?: DocumentFormat;
+  /** Adapter that reads and writes the document instead of the built-in one for `format` */
+  adapter?: DocumentAdapter;
+  /** Also expose indented (4-space) code blocks, with an empty lang and meta */
+  indented?: boolean;
+  /** Read `key: value` metadata from a comment on the first line of the code (e.g. `// file: app.ts`) */
+  headerMeta?: boolean;
+  /** Parse markdown as MDX: fences inside JSX may be indented, fences inside expressions are ignored and `{/* mdcode *\/}` comments hold metadata */
+  mdx?: boolean;
+};
+
+/**
+ * An edit to one of the blocks found by a document adapter
+ */
+export type BlockEdit = {
+  /** Index of the block among the blocks returned by `find()` */
+  index: number;
+  /** The block, as returned by `find()` */
+  block: Block;
+  /** New code for the block (it may end with a line ending) */
+  code?: string;
+  /** Metadata keys to set (keys not listed are kept) */
+  meta?: Record<string, string>;
+};
+
+/**
+ * Reads and writes the code blocks of a document format.
+ * Register one for file extensions with `registerAdapter()`; markdown (and the
+ * other built-in formats) is handled by `markdownAdapter`.
+ */
+export interface DocumentAdapter {
+  /** Find every code block of a document, with `position.start` and `position.end` set to the offsets of its code */
+  find: (source: string, options: SyntaxOptions) => Array<Block>;
+  /** Apply code and metadata edits to the blocks found by `find()`, returning the new source */
+  apply: (source: string, edits: Array<BlockEdit>, options: UpdateInfoOptions) => string;
+}
+
+/**
+ * Document-level defaults, read from the `mdcode:` key of YAML front matter
+ */
+export interface DocumentDefaults {
+  /** Base path prepended to relative `file` metadata */
+  base?: string;
+  /** Default metadata for every block */
+  meta?: Record<string, string>;
+  /** Default metadata per language */
+  langs?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Where new metadata is written: the info string, or an
+ * `<!-- mdcode key=value -->` comment on the line before the block
+ */
+export type MetaStyle = "info" | "comment";
+
+/**
+ * A block to insert into a document
+ */
+export type NewBlock = {
+  lang: string;
+  meta?: Record<string, string>;
+  code: string;
+};
+
+/**
+ * An edit a `Document` can make (see `Document.supports()`)
+ */
+export type DocumentOperation = "setCode" | "setMeta" | "deleteMeta" | "setLang" | "insert" | "remove" | "move";
+
+/**
+ * Where to insert (or move) a block: after or before a block (by index), or
+ * right after a heading (by slug)
+ */
+export type BlockTarget = { after: number; } | { before: number; } | { heading: string; };
+
+/**
+ * Options for updating info strings
+ */
+export type UpdateInfoOptions = SyntaxOptions & {
+  /** Where to write keys that are not present yet (default: "info") */
+  metaStyle?: MetaStyle;
+};
+
 /**
  * Options for parsing markdown
  */
-export type ParseOptions = {
+export type ParseOptions = SyntaxOptions & {
   /** The markdown source to parse */
   source: string;
   /** Optional filter to apply during parsing */
   filter?: FilterOptions;
 };
 
+/**
+ * Blocks found by parsing, with any problems in the source
+ */
+export type ParseResult = {
+  /** Blocks matching the filter */
+  blocks: Array<Block>;
+  /** Problems found anywhere in the document (regardless of the filter) */
+  diagnostics: Array<Diagnostic>;
+};
+
 /**
  * Options for walking/transforming blocks
  */
-export type WalkOptions = {
+export type WalkOptions = UpdateInfoOptions & {
   /** The markdown source to walk */
   source: string;
   /** Function to call for each block */
@@ -63,6 +236,23 @@ export type WalkOptions = {
   filter?: FilterOptions;
 };
 
+/**
+ * A part of a block a walker can change
+ */
+export type BlockField = "code" | "lang" | "meta";
+
+/**
+ * A block a walker changed, and what it changed
+ */
+export type BlockChange = {
+  /** The block as it was before the walker */
+  block: Block;
+  /** The fields the walker changed */
+  fields: Array<BlockField>;
+  /** Fields the walker changed that cannot be written in the document's format, so they were left as they were */
+  skipped?: Array<BlockField>;
+};
+
 /**
  * Result of walking and potentially modifying blocks
  */
@@ -73,6 +263,69 @@ export type WalkResult = {
   blocks: Array<Block>;
   /** Whether any modifications were made */
   modified: boolean;
+  /** The blocks the walker changed, in document order */
+  changes: Array<BlockChange>;
+  /** Problems found in the source */
+  diagnostics: Array<Diagnostic>;
+};
+
+/**
+ * A document read in chunks: a Node.js or web readable stream, or any async
+ * iterable of strings or UTF-8 bytes
+ */
+export type StreamInput = AsyncIterable<string | Uint8Array>;
+
+/**
+ * Syntax options for streaming, which reads markdown and MDX only
+ */
+export type StreamSyntaxOptions = Omit<SyntaxOptions, "format" | "adapter">;
+
+/**
+ * Options for parsing a markdown stream
+ */
+export type ParseStreamOptions = StreamSyntaxOptions & {
+  /** The markdown to parse */
+  input: StreamInput;
+  /** Optional filter to apply during parsing */
+  filter?: FilterOptions;
+};
+
+/**
+ * Options for walking a markdown stream
+ */
+export type WalkStreamOptions = StreamSyntaxOptions & {
+  /** The markdown to walk */
+  input: StreamInput;
+  /** Where to write new metadata keys (default: "info") */
+  metaStyle?: MetaStyle;
+  /** Where to write the rewritten markdown (it is not ended) */
+  output: Writable;
+  /** Function to call for each block */
+  walker: WalkerFunction;
+  /** Optional filter to apply before calling walker */
+  filter?: FilterOptions;
+};
+
+/**
+ * Result of walking a markdown stream
+ */
+export type WalkStreamResult = {
+  /** Number of blocks processed */
+  count: number;
+  /** Whether any modifications were made */
+  modified: boolean;
+};
+
+/**
+ * Changes a transformer makes to a block other than (or besides) its code
+ */
+export type TransformerResult = {
+  /** New code (the block keeps its code if absent) */
+  code?: string;
+  /** New language */
+  lang?: string;
+  /** Metadata keys to set (or remove, with undefined); other keys are kept */
+  meta?: Record<string, string | undefined>;
 };
 
 /**
@@ -80,11 +333,21 @@ export type WalkResult = {
  * @param tag - The language tag (e.g., 'js', 'sql', 'python')
  * @param meta - Metadata containing file and region if present
  * @param code - The code block content
- * @returns The transformed code (or Promise of transformed code)
+ * @param headings - The section headings enclosing the block
+ * @param slug - The anchor slug of the block's section
+ * @returns The transformed code, or the changes to make to the block (or a Promise of either)
  */
 export type TransformerFunction = (options: { tag: string;
   meta: TransformerMeta;
-  code: string; }) => string | Promise<string>;
+  code: string;
+  /** Headings of the sections enclosing the block, outermost first */
+  headings?: Array<string>;
+  /** Anchor slug of the innermost enclosing heading */
+  slug?: string;
+  /** The document being updated, for edits other than the block's code (absent when there is none, e.g. for mdast trees) */
+  document?: Document;
+  /** Index of the block in the document */
+  index?: number; }) => string | TransformerResult | Promise<string | TransformerResult>;
 
 /**
  * Helper function to define a transformer with proper type checking
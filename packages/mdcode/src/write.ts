@@ -0,0 +1,96 @@
+/**
+ * Writing back into documents: text edits, container prefixes and code fences
+ */
+
+import { normalizeEol } from "./eol.ts";
+import type { LineEnding } from "./eol.ts";
+import { blockCode } from "./scanner.ts";
+import type { ScannedBlock } from "./scanner.ts";
+
+/**
+ * A text edit: replace the source from `start` to `end` with `text`
+ */
+export interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Offset where the line holding `offset` starts
+ */
+export function lineStart(source: string, offset: number): number {
+  return source.lastIndexOf("\n", offset - 1) + 1;
+}
+
+/**
+ * Offset where the line after the one holding `offset` starts (the end of the source for the last line)
+ */
+export function nextLine(source: string, offset: number): number {
+  const newline = source.indexOf("\n", offset);
+  return newline < 0 ? source.length : newline + 1;
+}
+
+/**
+ * Re-apply the container prefix and fence indentation to replacement code.
+ * Blank lines only get the prefix's markers (e.g. `>`), not trailing whitespace.
+ */
+export function prefixLines(code: string, prefix: string): string {
+  if (!prefix) {
+    return code;
+  }
+
+  const blankPrefix = prefix.trimEnd();
+  return code.replace(/^(.*?)(\r?\n|$)/gm, (line, text: string, eol: string) => {
+    if (!line) {
+      return "";
+    }
+    return (text ? prefix + text : blankPrefix) + eol;
+  });
+}
+
+/**
+ * Write replacement code into a text document: in the document's line endings,
+ * ending with one for proper fence separation (empty code is an empty line), and
+ * with the block's prefix and indentation on each line
+ */
+export function writeLines(code: string, scanned: ScannedBlock, eol: LineEnding): string {
+  const newCode = normalizeEol(code, eol);
+  return prefixLines(newCode.endsWith(eol) ? newCode : newCode + eol, scanned.prefix + scanned.indent);
+}
+
+/**
+ * Pick a backtick fence longer than any backtick run at the start of a code line
+ */
+export function fenceFor(code: string): string {
+  const runs = code.match(/^ {0,3}`{3,}/gm) || [];
+  return "`".repeat(Math.max(3, ...runs.map(run => run.trim().length + 1)));
+}
+
+/**
+ * Turn an indented code block into a fenced one with the given info string
+ * @returns Replacement for the source range from `infoStart` to `codeEnd`
+ */
+export function toFenced(scanned: ScannedBlock, info: string, source: string, eol: LineEnding): string {
+  const code = blockCode(scanned);
+  const fence = fenceFor(code);
+
+  const body = prefixLines(code + eol, scanned.prefix);
+  const end = source.substring(scanned.codeEnd - 1, scanned.codeEnd) === "\n" ? eol : "";
+
+  return `${fence}${info}${eol}${body}${scanned.prefix}${fence}${end}`;
+}
+
+/**
+ * Apply text edits to a source, from the last one back so earlier offsets stay valid
+ * (an insertion goes after a replacement that starts at the same offset)
+ */
+export function applyEdits(source: string, edits: Array<Edit>): string {
+  let result = source;
+
+  for (const { start, end, text } of [ ...edits ].sort((a, b) => b.start - a.start || b.end - a.end)) {
+    result = result.substring(0, start) + text + result.substring(end);
+  }
+
+  return result;
+}
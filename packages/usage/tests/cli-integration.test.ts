@@ -1,6 +1,6 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
@@ -214,4 +214,368 @@ const y = 2;
       assert.ok(!result2.stdout.includes("const x"), "Should not include prod block");
     });
   });
+
+  describe("indented code blocks", () => {
+    it("should include indented blocks only with --indented", async () => {
+      const markdown = "Example:\n\n    const legacy = true;\n";
+
+      const result1 = await execCli(["list"], { stdin: markdown });
+      assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+      assert.ok(result1.stdout.includes("No code blocks found"), "Should ignore indented block by default");
+
+      const result2 = await execCli(["list", "--indented"], { stdin: markdown });
+      assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+      assert.ok(result2.stdout.includes("const legacy = true;"), "Should include indented block");
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("should warn about problems and fail with --strict", async () => {
+      const markdown = "```js\nconsole.log('never closed');\n";
+
+      const result1 = await execCli(["list"], { stdin: markdown });
+      assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+      assert.ok(result1.stderr.includes("line 1: Unclosed code fence"), "Should warn about the unclosed fence");
+
+      const result2 = await execCli(["list", "--strict"], { stdin: markdown });
+      assert.strictEqual(result2.exitCode, 1, "Should fail with --strict");
+      assert.ok(result2.stderr.includes("1 problem(s) found"), "Should report the problem count");
+      assert.strictEqual(result2.stdout, "", "Should not list blocks");
+    });
+  });
+
+  describe("MDX", () => {
+    it("should parse .mdx files as MDX and round-trip updates", async () => {
+      const markdown = "import Tabs from \"./Tabs\";\n\n<Tabs>\n  <Tab>\n\n    ```js file=app.js\n    old();\n    ```\n\n  </Tab>\n</Tabs>\n\n{`\n```js\nnotCode();\n```\n`}\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const mdxPath = join(tmpDir, "guide.mdx");
+        await writeFile(mdxPath, markdown);
+        await writeFile(join(tmpDir, "app.js"), "updated();\n");
+
+        const result1 = await execCli(["list", mdxPath]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.ok(result1.stdout.includes("file=app.js"), "Should find the block inside JSX");
+        assert.ok(!result1.stdout.includes("notCode"), "Should ignore the fence inside an expression");
+
+        const result2 = await execCli(["update", mdxPath, "--quiet"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(mdxPath, "utf-8"), markdown.replace("old();", "updated();"), "Should keep the JSX indentation");
+
+        const result3 = await execCli(["list", "--mdx"], { stdin: markdown });
+        assert.ok(result3.stdout.includes("file=app.js"), "Should enable MDX with --mdx");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("AsciiDoc", () => {
+    const adoc = "= Guide\n\n[source,java,file=App.java,region=main]\n----\nold();\n----\n\n[source,sh,file=run.sh]\n----\njava App\n----\n";
+
+    it("should list blocks from .adoc files and with --format", async () => {
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const adocPath = join(tmpDir, "guide.adoc");
+        await writeFile(adocPath, adoc);
+
+        const result1 = await execCli(["list", adocPath]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.ok(result1.stdout.includes("Found 2 code block(s)"), "Should find both listing blocks");
+        assert.ok(result1.stdout.includes("region=main"), "Should map attributes onto metadata");
+
+        const result2 = await execCli(["list", "--format", "asciidoc", "--json"], { stdin: adoc });
+        assert.strictEqual(result2.stdout.trim().split("\n").length, 2, "Should parse stdin as AsciiDoc");
+
+        const result3 = await execCli(["list", "--format", "docbook"], { stdin: adoc });
+        assert.strictEqual(result3.exitCode, 1, "Should reject unknown formats");
+        assert.ok(result3.stderr.includes("Invalid --format"), "Should explain the error");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should update blocks from tag regions and extract files", async () => {
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const adocPath = join(tmpDir, "guide.adoc");
+        await writeFile(adocPath, adoc);
+        await writeFile(join(tmpDir, "App.java"), "class App {\n  // tag::main[]\n  run();\n  // end::main[]\n}\n");
+        await writeFile(join(tmpDir, "run.sh"), "java -cp . App\n");
+
+        const result1 = await execCli(["update", adocPath, "--quiet"]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(
+          await readFile(adocPath, "utf-8"),
+          adoc.replace("old();", "  run();").replace("java App", "java -cp . App"),
+          "Should replace only the code between the delimiters"
+        );
+
+        const outDir = join(tmpDir, "out");
+        const result2 = await execCli(["extract", adocPath, "-d", outDir, "--quiet", "--lang", "sh"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(join(outDir, "run.sh"), "utf-8"), "java -cp . App", "Should extract the block");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("reStructuredText", () => {
+    it("should update code-block directives in .rst files, keeping their indentation", async () => {
+      const rst = "Usage\n=====\n\n.. note::\n\n   .. code-block:: python\n      :caption: Setup\n      :file: app.py\n      :region: main\n\n      old()\n\nDone.\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const rstPath = join(tmpDir, "index.rst");
+        await writeFile(rstPath, rst);
+        await writeFile(join(tmpDir, "app.py"), "# #region main\ndef main():\n    run()\n# #endregion\n");
+
+        const result1 = await execCli(["list", rstPath]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.ok(result1.stdout.includes("caption=Setup"), "Should turn options into metadata");
+
+        const result2 = await execCli(["update", rstPath, "--quiet"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(
+          await readFile(rstPath, "utf-8"),
+          rst.replace("      old()\n", "      def main():\n          run()\n"),
+          "Should indent the new code inside the directive"
+        );
+
+        const result3 = await execCli(["list", "--format", "rst", "--json"], { stdin: rst });
+        assert.ok(result3.stdout.includes("\"file\":\"app.py\""), "Should parse stdin as reStructuredText");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Org-mode", () => {
+    it("should extract blocks to their :tangle files and refresh them on update", async () => {
+      const org = "* Deploy\n#+BEGIN_SRC sh :tangle deploy.sh :exports code\n./deploy.sh prod\n#+END_SRC\n\n#+begin_src text\nnot tangled\n#+end_src\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const orgPath = join(tmpDir, "runbook.org");
+        const outDir = join(tmpDir, "out");
+        await writeFile(orgPath, org);
+
+        const result1 = await execCli(["list", orgPath]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.ok(result1.stdout.includes("file=deploy.sh"), "Should read :tangle as the file");
+
+        const result2 = await execCli(["extract", orgPath, "-d", outDir, "--quiet"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(join(outDir, "deploy.sh"), "utf-8"), "./deploy.sh prod", "Should write the tangled file");
+
+        await writeFile(join(tmpDir, "deploy.sh"), "* ./deploy.sh staging\n");
+        const result3 = await execCli(["update", orgPath, "--quiet"]);
+        assert.strictEqual(result3.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(
+          await readFile(orgPath, "utf-8"),
+          org.replace("./deploy.sh prod\n", ",* ./deploy.sh staging\n"),
+          "Should refresh the block, escaping lines Org would read as headlines"
+        );
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("HTML", () => {
+    it("should list, extract and update <pre><code> elements", async () => {
+      const html = "<h1>Guide</h1>\n<pre><code class=\"language-js\" data-file=\"app.js\">\nif (a &lt; b) run(&quot;x&quot;);\n</code></pre>\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const htmlPath = join(tmpDir, "guide.html");
+        const outDir = join(tmpDir, "out");
+        await writeFile(htmlPath, html);
+
+        const result1 = await execCli(["list", htmlPath]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.ok(result1.stdout.includes("file=app.js"), "Should read data-file as the file");
+
+        const result2 = await execCli(["extract", htmlPath, "-d", outDir, "--quiet"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(join(outDir, "app.js"), "utf-8"), "if (a < b) run(\"x\");", "Should decode entities");
+
+        await writeFile(join(tmpDir, "app.js"), "if (a > b && c) run(\"<y>\");\n");
+        const result3 = await execCli(["update", htmlPath, "--quiet"]);
+        assert.strictEqual(result3.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(
+          await readFile(htmlPath, "utf-8"),
+          html.replace("if (a &lt; b) run(&quot;x&quot;);\n", "if (a &gt; b &amp;&amp; c) run(\"&lt;y&gt;\");\n"),
+          "Should escape the new code"
+        );
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Jupyter notebooks", () => {
+    it("should update and extract code cells, keeping outputs", async () => {
+      const notebook = {
+        cells: [
+          {
+            cell_type: "code",
+            execution_count: 1,
+            metadata: { mdcode: { file: "app.py" } },
+            outputs: [ { name: "stdout", output_type: "stream", text: [ "old\n" ] } ],
+            source: [ "print(\"old\")" ],
+          },
+        ],
+        metadata: { kernelspec: { display_name: "Python 3", language: "python", name: "python3" } },
+        nbformat: 4,
+        nbformat_minor: 5,
+      };
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const notebookPath = join(tmpDir, "demo.ipynb");
+        const outDir = join(tmpDir, "out");
+        await writeFile(notebookPath, `${JSON.stringify(notebook, null, 1)}\n`);
+        await writeFile(join(tmpDir, "app.py"), "def main():\n    print(\"new\")\n");
+
+        const result1 = await execCli(["update", notebookPath, "--quiet"]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        const updated = structuredClone(notebook);
+        updated.cells[0]!.source = [ "def main():\n", "    print(\"new\")" ];
+        assert.strictEqual(await readFile(notebookPath, "utf-8"), `${JSON.stringify(updated, null, 1)}\n`, "Should only change the cell's source");
+
+        const result2 = await execCli(["extract", notebookPath, "-d", outDir, "--quiet", "--lang", "python"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(join(outDir, "app.py"), "utf-8"), "def main():\n    print(\"new\")", "Should extract the cell");
+
+        const result3 = await execCli(["list", "--format", "ipynb"], { stdin: "{ \"cells\": [" });
+        assert.strictEqual(result3.exitCode, 1, "Should fail on invalid JSON");
+        assert.ok(result3.stderr.includes("Invalid notebook JSON"), "Should explain the error");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("JSDoc", () => {
+    it("should update and run examples in doc comments", async () => {
+      const script = "/**\n * Greet someone.\n *\n * @example\n * ```js file=greet.js region=main\n * old();\n * ```\n */\nexport function greet() {}\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const scriptPath = join(tmpDir, "greet.ts");
+        await writeFile(scriptPath, script);
+        await writeFile(join(tmpDir, "greet.js"), "// #region main\nconsole.log(\"hi\");\n\nconsole.log(\"*/\");\n// #endregion\n");
+
+        const result1 = await execCli(["update", scriptPath, "--quiet"]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(
+          await readFile(scriptPath, "utf-8"),
+          script.replace(" * old();\n", " * console.log(\"hi\");\n *\n * console.log(\"*\\/\");\n"),
+          "Should keep the comment prefix and escape the end of comment"
+        );
+
+        const result2 = await execCli(["run", "cat {file}", scriptPath]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.ok(result2.stdout.includes("console.log(\"*/\");"), "Should run the block's code");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("doctest", () => {
+    it("should report and accept doctest output", async () => {
+      const markdown = "# Math\n\n```pycon\n>>> 1 + 1\n3\n>>> print(\"a\\n\\nb\")\na\n<BLANKLINE>\nb\n```\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const mdPath = join(tmpDir, "README.md");
+        await writeFile(mdPath, markdown);
+
+        const result1 = await execCli(["doctest", mdPath]);
+        assert.strictEqual(result1.exitCode, 1, "Should fail on a mismatch");
+        assert.ok(result1.stderr.includes(`${mdPath}:4: 1 + 1`), "Should report the line of the example");
+        assert.ok(result1.stderr.includes("1 of 2 example(s) failed"), "Should count the failures");
+
+        const result2 = await execCli(["doctest", mdPath, "--accept", "--quiet"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(mdPath, "utf-8"), markdown.replace(">>> 1 + 1\n3\n", ">>> 1 + 1\n2\n"), "Should rewrite the expected output");
+
+        const result3 = await execCli(["doctest", mdPath]);
+        assert.strictEqual(result3.exitCode, 0, "Should pass after accepting");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should run docstring examples with the module's globals", async () => {
+      const module = "def double(n):\n    \"\"\"Double a number.\n\n    >>> double(2)\n    4\n    >>> double(\"x\")\n    Traceback (most recent call last):\n        ...\n    TypeError: oops\n    \"\"\"\n    return n * 2\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const modulePath = join(tmpDir, "double.py");
+        await writeFile(modulePath, module);
+
+        const result = await execCli(["doctest", modulePath]);
+        assert.strictEqual(result.exitCode, 1, "Should fail on a mismatch");
+        assert.ok(result.stderr.includes(`${modulePath}:6: double("x")`), "Should report the line of the example");
+        assert.ok(result.stderr.includes("1 of 2 example(s) failed"), "Should run the module's functions");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("line endings", () => {
+    it("should leave a CRLF document with a BOM byte-identical when nothing changed", async () => {
+      const markdown = "\uFEFF# App\r\n\r\n```js file=app.js\r\nrun();\r\ndone();\r\n```\r\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const mdPath = join(tmpDir, "README.md");
+        await writeFile(mdPath, markdown);
+        await writeFile(join(tmpDir, "app.js"), "\uFEFFrun();\ndone();\n");
+
+        const result1 = await execCli(["update", mdPath]);
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.ok(result1.stderr.includes("No blocks were updated"), "Should not count an update");
+        assert.strictEqual(await readFile(mdPath, "utf-8"), markdown, "Should keep the file byte-identical");
+
+        await writeFile(join(tmpDir, "app.js"), "run();\nchanged();\n");
+        const result2 = await execCli(["update", mdPath, "--quiet"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(mdPath, "utf-8"), "\uFEFF# App\r\n\r\n```js file=app.js\r\nrun();\r\nchanged();\r\n```\r\n", "Should write CRLF line endings");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("header comments", () => {
+    it("should extract without the header and keep it on update", async () => {
+      const markdown = "```js\n// file: app.js\nold();\n```\n";
+      const tmpDir = await mkdtemp(join(tmpdir(), "mdcode-cli-test-"));
+
+      try {
+        const result1 = await execCli(["extract", "-d", tmpDir, "--quiet", "--header-meta", "--strip-header"], { stdin: markdown });
+        assert.strictEqual(result1.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(await readFile(join(tmpDir, "app.js"), "utf-8"), "old();", "Should write the code without the header");
+
+        const mdPath = join(tmpDir, "README.md");
+        await writeFile(mdPath, markdown);
+        await writeFile(join(tmpDir, "app.js"), "updated();\n");
+
+        const result2 = await execCli(["update", mdPath, "--quiet", "--header-meta", "--stdout"]);
+        assert.strictEqual(result2.exitCode, 0, "Should exit successfully");
+        assert.strictEqual(result2.stdout, "```js\n// file: app.js\nupdated();\n```\n", "Should keep the header line");
+      } finally {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -1,18 +1,26 @@
 import assert from "node:assert/strict";
-import { mkdir, unlink, writeFile } from "node:fs/promises";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, it } from "node:test";
 
 import mdcode, {
     defineTransform,
+    Document,
     parse,
+    parseStream,
+    registerAdapter,
+    syntaxForPath,
     transformWithFunction,
+    toMdast,
     update,
+    updateMdast,
     walk,
+    walkStream,
 } from "mdcode";
 
-import type {TransformerMeta, Block, TransformerFunction} from "mdcode"
+import type {TransformerMeta, Block, DocumentAdapter, MdastNode, TransformerFunction} from "mdcode"
 
 describe("Library Usage - Programmatic API", () => {
   describe("default export - Simple file-based API", () => {
@@ -127,6 +135,35 @@ const app = {};
       // Cleanup
       await unlink(testFile);
     });
+
+    it("should read files with a registered adapter", async () => {
+      // A snippet file is one block: a `lang key=value` header line, then the code
+      const snippets: DocumentAdapter = {
+        find: source => {
+          const [ header = "", ...lines ] = source.split("\n");
+          const [ lang = "", ...pairs ] = header.split(" ");
+          const start = header.length + 1;
+          return [ { lang, meta: Object.fromEntries(pairs.map(pair => pair.split("="))), code: lines.join("\n").trimEnd(), position: { start, end: source.length } } ];
+        },
+        apply: (source, edits) => edits.reduce((result, { block, code }) => code === undefined
+          ? result
+          : result.substring(0, block.position?.start) + code.replace(/\n?$/, "\n"), source),
+      };
+      registerAdapter(".snippet", snippets);
+
+      const testFile = join(testDir, "query.snippet");
+      await mkdir(testDir, { recursive: true });
+      await writeFile(testFile, "sql file=query.sql\nselect 1;\n", "utf-8");
+
+      const result = await mdcode(testFile, ({ tag, code }) => tag === "sql" ? code.toUpperCase() : code);
+      assert.strictEqual(result, "sql file=query.sql\nSELECT 1;\n");
+
+      const blocks = parse({ source: "sql file=query.sql\nselect 1;\n", ...syntaxForPath(testFile) });
+      assert.deepStrictEqual(blocks.map(block => [ block.lang, block.meta.file, block.code ]), [ [ "sql", "query.sql", "select 1;" ] ]);
+
+      // Cleanup
+      await unlink(testFile);
+    });
   });
 
   describe("parse() - Extract code blocks", () => {
@@ -296,6 +333,21 @@ test('example');
       assert.ok(result.includes("test('example')"));
     });
 
+    it("should change the language and metadata of blocks", async () => {
+      const markdown = "```js file=app.js untyped\nconst x: number = 1;\n```\n\n```sh\nnpm test\n```\n";
+
+      const transformer = defineTransform(({ tag, code }) => {
+        if (code.includes(": number")) {
+          return { lang: "ts", meta: { file: "app.ts", untyped: undefined } };
+        }
+        return { code: code.replace("npm", "pnpm"), meta: { name: tag } };
+      });
+
+      const result = await update({ source: markdown, transformer, quiet: true });
+
+      assert.strictEqual(result, "```ts file=app.ts\nconst x: number = 1;\n```\n\n```sh name=sh\npnpm test\n```\n");
+    });
+
     it("should handle async transformers", async () => {
       const markdown = `
 \`\`\`js
@@ -333,6 +385,101 @@ const x = 1;
     });
   });
 
+  describe("updateMdast() - Update mdast trees", () => {
+    it("should update code nodes from a region of a file", async () => {
+      const testDir = join(tmpdir(), "mdcode-test-mdast");
+      await mkdir(testDir, { recursive: true });
+      await writeFile(join(testDir, "app.js"), "setup();\n// #region main\nrun();\n// #endregion\n", "utf-8");
+
+      // A tree as remark would build it
+      const tree: MdastNode = {
+        type: "root",
+        children: [
+          { type: "heading", children: [] },
+          toMdast({ lang: "js", meta: { file: "app.js", region: "main" }, code: "old();\n" }),
+        ],
+      };
+
+      const result = await updateMdast({ tree, basePath: testDir, quiet: true });
+
+      assert.strictEqual(result.modified, true);
+      assert.deepStrictEqual(tree.children?.[1], { type: "code", lang: "js", meta: "file=app.js region=main", value: "run();" });
+
+      // Cleanup
+      await unlink(join(testDir, "app.js"));
+    });
+  });
+
+  describe("parseStream() / walkStream() - Stream large documents", () => {
+    it("should parse and rewrite a file without reading it whole", async () => {
+      const testDir = join(tmpdir(), "mdcode-test-stream");
+      const input = join(testDir, "reference.md");
+      const output = join(testDir, "reference.out.md");
+      await mkdir(testDir, { recursive: true });
+      const sections = Array.from({ length: 200 }, (_, i) => `## Method ${i}\n\n\`\`\`js\ncall${i}();\n\`\`\`\n`);
+      await writeFile(input, sections.join("\n"), "utf-8");
+
+      const slugs: Array<string> = [];
+      for await (const block of parseStream({ input: createReadStream(input, { highWaterMark: 64 }) })) {
+        slugs.push(block.slug || "");
+      }
+      assert.strictEqual(slugs.length, 200);
+      assert.strictEqual(slugs[199], "method-199");
+
+      const out = createWriteStream(output);
+      const result = await walkStream({
+        input: createReadStream(input),
+        output: out,
+        walker: block => ({ ...block, code: block.code.replace("call", "await call") }),
+      });
+      await new Promise(resolve => out.end(resolve));
+
+      assert.deepStrictEqual(result, { count: 200, modified: true });
+      const rewritten = await readFile(output, "utf-8");
+      assert.ok(rewritten.includes("## Method 42\n\n```js\nawait call42();\n```\n"));
+
+      // Cleanup
+      await unlink(input);
+      await unlink(output);
+    });
+  });
+
+  describe("Document - Edit blocks and their structure", () => {
+    it("should insert, move and remove blocks", () => {
+      const markdown = "# Setup\n\n```sh\nnpm i\n```\n\n## Usage\n\n```js file=app.js\nrun();\n```\n";
+      const document = new Document(markdown);
+
+      document
+        .insert({ lang: "sh", code: "npm test", meta: { name: "test" } }, { heading: "usage" })
+        .setLang(2, "ts")
+        .move(0, { after: 2 })
+        .remove(0);
+
+      assert.strictEqual(document.toString(), "# Setup\n\n## Usage\n\n```ts file=app.js\nrun();\n```\n\n```sh\nnpm i\n```\n");
+      assert.deepStrictEqual(document.blocks.map(block => block.lang), [ "ts", "sh" ]);
+    });
+
+    it("should let transformers edit the document being updated", async () => {
+      const markdown = "```js\nold();\n```\n\n```js hidden\nsecret();\n```\n";
+
+      const result = await update({
+        source: markdown,
+        quiet: true,
+        transformer: ({ code, document, index }) => {
+          if (document && index !== undefined && document.blocks[index]?.meta.hidden) {
+            document.remove(index);
+          }
+          else {
+            document?.setMeta(index ?? 0, { checked: "true" });
+          }
+          return code.replace("old", "new");
+        },
+      });
+
+      assert.strictEqual(result, "```js checked=true\nnew();\n```\n");
+    });
+  });
+
   describe("transformWithFunction() - Direct transformation", () => {
     it("should transform blocks directly", async () => {
       const markdown = `
@@ -5,6 +5,12 @@ import { describe, it } from "node:test";
 import { list } from "../../mdcode/src/commands/list.ts";
 import {stripAnsi} from "./test-utils.ts";
 
+// Parse a JSON output line without its position, so the metadata can be compared on its own
+function parseWithoutPosition(line: string | undefined): Record<string, unknown> {
+  const { position: _position, ...rest } = JSON.parse(line || "{}");
+  return rest;
+}
+
 describe("list command", () => {
   describe("default text output", () => {
     it("should display blocks with metadata and preview", () => {
@@ -80,18 +86,20 @@ print('world')
 
       assert.strictEqual(lines.length, 2);
 
-      const block1 = JSON.parse(lines[0] || "{}");
-      const block2 = JSON.parse(lines[1] || "{}");
+      const block1 = parseWithoutPosition(lines[0]);
+      const block2 = parseWithoutPosition(lines[1]);
 
       assert.deepStrictEqual(block1, {
         lang: "js",
         file: "app.js",
         region: "main",
+        meta: { file: "app.js", region: "main" },
       });
 
       assert.deepStrictEqual(block2, {
         lang: "python",
         file: "script.py",
+        meta: { file: "script.py" },
       });
     });
 
@@ -103,9 +111,21 @@ SELECT * FROM users;
       `.trim();
 
       const output = list({ source: markdown, json: true });
-      const parsed = JSON.parse(output);
+      const parsed = parseWithoutPosition(output);
 
-      assert.deepStrictEqual(parsed, { lang: "sql" });
+      assert.deepStrictEqual(parsed, { lang: "sql", meta: {} });
+    });
+
+    it("should output the line and column of the fences and code", () => {
+      const markdown = "# Title\n\n```js file=app.js\nconst x = 1;\n```\n";
+
+      const output = list({ source: markdown, json: true });
+      const { position } = JSON.parse(output);
+
+      assert.deepStrictEqual(position.opening.start, { line: 3, column: 1, offset: 9 });
+      assert.deepStrictEqual(position.info.start, { line: 3, column: 4, offset: 12 });
+      assert.deepStrictEqual(position.code.start, { line: 4, column: 1, offset: 27 });
+      assert.deepStrictEqual(position.closing.end, { line: 5, column: 4, offset: 43 });
     });
 
     it("should output empty string for no blocks", () => {
@@ -151,9 +171,72 @@ const z = 3;
     it("should handle blocks without language tag", () => {
       const markdown = "```\nplain code\n```";
       const output = list({ source: markdown, json: true });
-      const parsed = JSON.parse(output);
+      const parsed = parseWithoutPosition(output);
+
+      assert.deepStrictEqual(parsed, { lang: "", meta: {} });
+    });
+
+    it("should include the enclosing section headings", () => {
+      const markdown = `
+# Usage
+
+## Advanced
+
+\`\`\`js file=app.js
+const x = 1;
+\`\`\`
+      `.trim();
+
+      const output = list({ source: markdown, json: true });
+      const parsed = parseWithoutPosition(output);
+
+      assert.deepStrictEqual(parsed, { lang: "js", headings: [ "Usage", "Advanced" ], slug: "advanced", file: "app.js", meta: { file: "app.js" } });
+    });
+
+    it("should output the effective meta with front matter defaults", () => {
+      const markdown = `
+---
+mdcode:
+  base: src
+  meta:
+    region: main
+---
+
+\`\`\`js file=app.js
+const x = 1;
+\`\`\`
+      `.trim();
+
+      const output = list({ source: markdown, json: true });
+      const parsed = parseWithoutPosition(output);
+
+      assert.deepStrictEqual(parsed, { lang: "js", region: "main", file: "src/app.js", meta: { region: "main", file: "src/app.js" } });
+    });
+
+    it("should not let metadata keys replace the block's own fields", () => {
+      const markdown = "# Usage\n\n```js lang=ts slug=custom headings=none meta=yes file=app.js\ncode\n```\n";
+
+      const output = list({ source: markdown, json: true });
+      const parsed = parseWithoutPosition(output);
+
+      // Keys the block's fields use are only under `meta`
+      assert.deepStrictEqual(parsed, {
+        lang: "js",
+        file: "app.js",
+        headings: [ "Usage" ],
+        slug: "usage",
+        meta: { lang: "ts", slug: "custom", headings: "none", meta: "yes", file: "app.js" },
+      });
+    });
+
+    it("should not let a position key replace the block's position", () => {
+      const markdown = "Intro\n\n```js position=top\ncode\n```\n";
+
+      const output = list({ source: markdown, json: true });
+      const { position, meta } = JSON.parse(output);
 
-      assert.deepStrictEqual(parsed, { lang: "" });
+      assert.strictEqual(position.opening.start.line, 3);
+      assert.deepStrictEqual(meta, { position: "top" });
     });
   });
 });